@@ -7,12 +7,22 @@
  * file that was distributed with this source code.
  */
 
-import { detectPackageManager, installPackage } from '@antfu/install-pkg'
+import { readFile } from 'node:fs/promises'
+import { relative, resolve, sep } from 'node:path'
+import { installPackage } from '@antfu/install-pkg'
 
-import { CommandOptions } from '../types/ace.js'
 import { args, BaseCommand, flags } from '../modules/ace/main.js'
+import { CommandOptions, LocatedPackage } from '../types/ace.js'
+import { PackageLocator } from '../modules/ace/package_locator.js'
+import { getPackageManager, type KnownPackageManager } from '../modules/ace/packages.js'
+import { NonInteractivePrompt } from '../modules/ace/non_interactive_prompt.js'
 
-const KNOWN_PACKAGE_MANAGERS = ['npm', 'pnpm', 'bun', 'yarn', 'yarn@berry', 'pnpm@6'] as const
+/**
+ * Package managers supporting the "workspace:" protocol. The
+ * rest of them install workspace packages using the "file:"
+ * protocol
+ */
+const WORKSPACE_PROTOCOL_MANAGERS = ['pnpm', 'bun', 'yarn@berry', 'pnpm@6']
 
 /**
  * The install command is used to `npm install` and `node ace configure` a new package
@@ -32,7 +42,7 @@ export default class Add extends BaseCommand {
   declare verbose?: boolean
 
   @flags.string({ description: 'Select the package manager you want to use' })
-  declare packageManager?: (typeof KNOWN_PACKAGE_MANAGERS)[number]
+  declare packageManager?: KnownPackageManager
 
   @flags.boolean({ description: 'Should we install the package as a dev dependency', alias: 'D' })
   declare dev?: boolean
@@ -40,26 +50,96 @@ export default class Add extends BaseCommand {
   @flags.boolean({ description: 'Forcefully overwrite existing files' })
   declare force?: boolean
 
+  @flags.dryRun()
+  declare dryRun?: boolean
+
+  @flags.boolean({
+    description: 'Restore the modified files when configuring the package fails',
+    showNegatedVariantInHelp: true,
+  })
+  declare rollback?: boolean
+
+  @flags.string({ description: 'Read the answers of the prompts from a JSON file' })
+  declare answers?: string
+
+  @flags.boolean({ description: 'Accept the default answers of the prompts' })
+  declare yes?: boolean
+
   /**
-   * Detect the package manager to use
+   * Returns the specifier to install the package with. The special
+   * packages are mapped to their npm package names and the local
+   * packages are installed using the workspace or the file protocol
    */
-  async #getPackageManager() {
-    const packageManager =
-      this.packageManager || (await detectPackageManager(this.app.makePath())) || 'npm'
+  #getInstallSpecifier(located: LocatedPackage) {
+    if (located.source === 'registry') {
+      if (this.name === 'vinejs') {
+        return '@vinejs/vine'
+      }
+      if (this.name === 'edge') {
+        return 'edge.js'
+      }
+      return this.name
+    }
+
+    if (located.source === 'git') {
+      return located.specifier
+    }
 
     if (
-      KNOWN_PACKAGE_MANAGERS.some((knownPackageManager) => knownPackageManager === packageManager)
+      located.source === 'workspace' &&
+      WORKSPACE_PROTOCOL_MANAGERS.includes(this.packageManager!)
     ) {
-      return packageManager as (typeof KNOWN_PACKAGE_MANAGERS)[number] | undefined
+      return `${located.name}@workspace:*`
+    }
+
+    return `file:${relative(this.app.makePath(), located.path!).split(sep).join('/')}`
+  }
+
+  /**
+   * Returns the dependencies of the app from the "package.json" file
+   */
+  async #getDependencies(): Promise<Record<string, string>> {
+    try {
+      const packageJson = JSON.parse(await readFile(this.app.makePath('package.json'), 'utf-8'))
+      return { ...packageJson.dependencies, ...packageJson.devDependencies }
+    } catch {
+      return {}
+    }
+  }
+
+  /**
+   * Finds the name of the package installed from the specifier by
+   * comparing the dependencies before and after the installation
+   */
+  async #findInstalledPackage(specifier: string, previousDependencies: Record<string, string>) {
+    const dependencies = await this.#getDependencies()
+    const names = Object.keys(dependencies)
+
+    return (
+      names.find((name) => !(name in previousDependencies)) ??
+      names.find((name) => dependencies[name].includes(specifier))
+    )
+  }
+
+  /**
+   * Replaces the interactive prompt when the answers are
+   * pre-filled using the "--answers" or the "--yes" flags
+   */
+  async #usePrefilledAnswers() {
+    if (!this.answers && !this.yes) {
+      return
     }
 
-    throw new Error('Invalid package manager. Must be one of npm, pnpm, bun or yarn')
+    const answers = this.answers
+      ? await NonInteractivePrompt.readAnswers(resolve(this.app.makePath(), this.answers))
+      : {}
+    this.prompt = new NonInteractivePrompt(answers, { acceptDefaults: this.yes === true })
   }
 
   /**
    * Configure the package by delegating the work to the `node ace configure` command
    */
-  async #configurePackage() {
+  async #configurePackage(packageName: string) {
     /**
      * Sending unknown flags to the configure command
      */
@@ -68,9 +148,13 @@ export default class Add extends BaseCommand {
       .map((flag) => [`--${flag}`, this.parsed.flags[flag].toString()])
 
     const configureArgs = [
-      this.name,
+      packageName,
       this.force ? '--force' : undefined,
       this.verbose ? '--verbose' : undefined,
+      this.dryRun ? '--dry-run' : undefined,
+      this.rollback === false ? '--no-rollback' : undefined,
+      this.answers ? `--answers=${this.answers}` : undefined,
+      this.yes ? '--yes' : undefined,
       ...flagValueArray.flat(),
     ].filter(Boolean) as string[]
 
@@ -115,22 +199,36 @@ export default class Add extends BaseCommand {
    */
   async run() {
     const colors = this.colors
-    this.packageManager = await this.#getPackageManager()
+    this.packageManager = await getPackageManager(this.app, this.packageManager)
+    await this.#usePrefilledAnswers()
+
+    const located = await new PackageLocator(this.app.makePath()).locate(this.name)
+    const npmPackageName = this.#getInstallSpecifier(located)
 
     /**
-     * Handle special packages to configure
+     * The package is not installed in dry-run mode. Therefore, the
+     * configure hook can be previewed only for the packages
+     * installed already or the local packages
      */
-    let npmPackageName = this.name
-    if (this.name === 'vinejs') {
-      npmPackageName = '@vinejs/vine'
-    } else if (this.name === 'edge') {
-      npmPackageName = 'edge.js'
+    if (this.dryRun) {
+      if (located.source === 'git') {
+        this.logger.error(
+          `Cannot preview the configure hook of "${this.name}" without installing it from git`
+        )
+        this.exitCode = 1
+        return
+      }
+
+      this.logger.info(`Skipping the installation of ${colors.green(this.name)} in dry-run mode`)
+      const { exitCode } = await this.#configurePackage(this.name)
+      this.exitCode = exitCode
+      return
     }
 
     /**
      * Prompt the user to confirm the installation
      */
-    const cmd = colors.grey(`${this.packageManager} add ${this.dev ? '-D ' : ''}${this.name}`)
+    const cmd = colors.grey(`${this.packageManager} add ${this.dev ? '-D ' : ''}${npmPackageName}`)
     this.logger.info(`Installing the package using the following command : ${cmd}`)
 
     const shouldInstall = await this.prompt.confirm('Continue ?', {
@@ -146,15 +244,31 @@ export default class Add extends BaseCommand {
     /**
      * Install package
      */
+    const dependencies = await this.#getDependencies()
     const pkgWasInstalled = await this.#installPackage(npmPackageName)
     if (!pkgWasInstalled) {
       return
     }
 
+    /**
+     * The git packages are configured using their name, which is
+     * known only after installing them
+     */
+    let packageName = this.name
+    if (located.source === 'git') {
+      const installedPackageName = await this.#findInstalledPackage(npmPackageName, dependencies)
+      if (!installedPackageName) {
+        this.logger.fatal(`Unable to find the name of the package installed from "${this.name}"`)
+        this.exitCode = 1
+        return
+      }
+      packageName = installedPackageName
+    }
+
     /**
      * Configure package
      */
-    const { exitCode } = await this.#configurePackage()
+    const { exitCode } = await this.#configurePackage(packageName)
     this.exitCode = exitCode
     if (exitCode === 0) {
       this.logger.success(`Installed and configured ${colors.green(this.name)}`)
@@ -0,0 +1,62 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import type { CommandOptions } from '../types/ace.js'
+import { args, BaseCommand } from '../modules/ace/main.js'
+import { ShellCompletions } from '../modules/ace/shell_completions.js'
+
+/**
+ * The complete command is invoked by the shell completion scripts
+ * to get suggestions for the words typed in the shell.
+ */
+export default class Complete extends BaseCommand {
+  static commandName = '__complete'
+  static description = 'Print the completion suggestions for the given words'
+
+  static options: CommandOptions = {
+    hidden: true,
+    allowUnknownFlags: true,
+  }
+
+  @args.spread({ description: 'Words typed after the binary', required: false })
+  declare words?: string[]
+
+  /**
+   * Returns the names of the application routes. Instead of
+   * starting the app, only the routes file is imported after
+   * booting the app.
+   */
+  async #getRouteNames() {
+    if (!this.app.isReady) {
+      try {
+        await this.app.boot()
+        await this.app.import('#start/routes')
+      } catch {
+        return []
+      }
+    }
+
+    const router = await this.app.container.make('router')
+    router.commit()
+
+    return Object.values(router.toJSON())
+      .flat()
+      .map((route) => route.name)
+      .filter((name): name is string => !!name)
+  }
+
+  async run() {
+    const completions = new ShellCompletions(this.kernel, {
+      testSuites: () => this.app.rcFile.tests.suites.map((suite) => suite.name),
+      routes: () => this.#getRouteNames(),
+    })
+
+    await completions.printSuggestions(this.words || [])
+  }
+}
@@ -0,0 +1,45 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import type { CommandOptions } from '../types/ace.js'
+import { args, BaseCommand } from '../modules/ace/main.js'
+import {
+  SUPPORTED_SHELLS,
+  ShellCompletions,
+  type SupportedShell,
+} from '../modules/ace/shell_completions.js'
+
+/**
+ * Prints the shell completion script for the ace commands
+ */
+export default class Completions extends BaseCommand {
+  static commandName = 'completions'
+  static description = 'Print the shell completion script for the ace commands'
+  static help = [
+    'Source the output of the command inside your shell config file',
+    '```',
+    'source <({{ binaryName }} completions bash)',
+    '```',
+  ]
+
+  static options: CommandOptions = {
+    completions: {
+      shell: [...SUPPORTED_SHELLS],
+    },
+  }
+
+  @args.string({ description: `Name of the shell. Accepted values are "${SUPPORTED_SHELLS}"` })
+  declare shell: SupportedShell
+
+  async run() {
+    if (!new ShellCompletions(this.kernel).printScript(this.shell)) {
+      this.exitCode = 1
+    }
+  }
+}
@@ -7,9 +7,15 @@
  * file that was distributed with this source code.
  */
 
+import { resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
 import { stubsRoot } from '../stubs/main.js'
 import type { CommandOptions } from '../types/ace.js'
+import type { Codemods } from '../modules/ace/codemods.js'
 import { args, BaseCommand, flags } from '../modules/ace/main.js'
+import { importPackage } from '../modules/ace/packages.js'
+import { PackageLocator } from '../modules/ace/package_locator.js'
+import { NonInteractivePrompt } from '../modules/ace/non_interactive_prompt.js'
 import { RuntimeException } from '@poppinss/utils'
 
 /**
@@ -54,6 +60,36 @@ export default class Configure extends BaseCommand {
   @flags.boolean({ description: 'Forcefully overwrite existing files', alias: 'f' })
   declare force?: boolean
 
+  /**
+   * Display the changes as a diff without writing them to the disk
+   */
+  @flags.dryRun()
+  declare dryRun?: boolean
+
+  /**
+   * Restore the modified files when the configure hook fails. The
+   * "--no-rollback" flag keeps the changes for debugging
+   */
+  @flags.boolean({
+    description: 'Restore the modified files when configuring the package fails',
+    showNegatedVariantInHelp: true,
+  })
+  declare rollback?: boolean
+
+  /**
+   * Path to a JSON file with the answers of the prompts, keyed
+   * by the prompt name
+   */
+  @flags.string({ description: 'Read the answers of the prompts from a JSON file' })
+  declare answers?: string
+
+  /**
+   * Accept the default answers of the prompts not defined inside
+   * the answers file
+   */
+  @flags.boolean({ description: 'Accept the default answers of the prompts' })
+  declare yes?: boolean
+
   /**
    * The root of the stubs directory. The value is defined after we import
    * the package
@@ -61,22 +97,10 @@ export default class Configure extends BaseCommand {
   declare stubsRoot: string
 
   /**
-   * Returns the package main exports
+   * Codemods instances created by the command. They are used to
+   * restore the modified files on failure
    */
-  async #getPackageSource(packageName: string) {
-    try {
-      const packageExports = await this.app.import(packageName)
-      return packageExports
-    } catch (error) {
-      if (
-        (error.code && error.code === 'ERR_MODULE_NOT_FOUND') ||
-        error.message.startsWith('Cannot find module')
-      ) {
-        return null
-      }
-      throw error
-    }
-  }
+  #codemods: Codemods[] = []
 
   /**
    * Registers VineJS provider
@@ -112,6 +136,74 @@ export default class Configure extends BaseCommand {
       flags: this.parsed.flags,
       entity: this.app.generators.createEntity('health_checks'),
     })
+
+    const controllerFileName = this.app.generators.controllerFileName('health_checks', false)
+    await codemods.registerRoutes([
+      {
+        type: 'route',
+        method: 'get',
+        pattern: '/health',
+        controller: {
+          name: this.app.generators.controllerName('health_checks', false),
+          path: this.app.generators.importPath(
+            '#controllers',
+            controllerFileName.replace(/\.ts$/, '')
+          ),
+        },
+      },
+    ])
+  }
+
+  /**
+   * Replaces the interactive prompt when the answers are
+   * pre-filled using the "--answers" or the "--yes" flags
+   */
+  async #usePrefilledAnswers() {
+    if (!this.answers && !this.yes) {
+      return
+    }
+
+    const answers = this.answers
+      ? await NonInteractivePrompt.readAnswers(resolve(this.app.makePath(), this.answers))
+      : {}
+    this.prompt = new NonInteractivePrompt(answers, { acceptDefaults: this.yes === true })
+  }
+
+  /**
+   * Restores the files modified by the codemods in the reverse
+   * order of their creation
+   */
+  async #rollback() {
+    const codemodsList = this.#codemods.reverse()
+    this.#codemods = []
+
+    this.logger.warning(`Rolling back the changes made while configuring "${this.name}"`)
+    for (const codemods of codemodsList) {
+      await codemods.rollback()
+    }
+  }
+
+  /**
+   * Runs the configure instructions and restores the modified files
+   * when the instructions throw an exception or fail with a
+   * non-zero exit code (for example, a failing codemod)
+   */
+  async #configure(instructions: () => Promise<void>) {
+    try {
+      await instructions()
+    } catch (error) {
+      if (this.rollback !== false) {
+        await this.#rollback()
+      }
+
+      throw new RuntimeException(`Unable to configure package "${this.name}"`, {
+        cause: error,
+      })
+    }
+
+    if (this.exitCode && this.rollback !== false) {
+      await this.#rollback()
+    }
   }
 
   /**
@@ -121,6 +213,10 @@ export default class Configure extends BaseCommand {
     const codemods = await super.createCodemods()
     codemods.overwriteExisting = this.force === true
     codemods.verboseInstallOutput = this.verbose === true
+    if (!this.#codemods.includes(codemods)) {
+      this.#codemods.push(codemods)
+    }
+
     return codemods
   }
 
@@ -128,17 +224,35 @@ export default class Configure extends BaseCommand {
    * Run method is invoked by ace automatically
    */
   async run() {
+    await this.#usePrefilledAnswers()
+
     if (this.name === 'vinejs') {
-      return this.#configureVineJS()
+      return this.#configure(() => this.#configureVineJS())
     }
     if (this.name === 'edge') {
-      return this.#configureEdge()
+      return this.#configure(() => this.#configureEdge())
     }
     if (this.name === 'health_checks') {
-      return this.#configureHealthChecks()
+      return this.#configure(() => this.#configureHealthChecks())
     }
 
-    const packageExports = await this.#getPackageSource(this.name)
+    /**
+     * Local and workspace packages are imported using their
+     * entrypoint, since they might not be installed yet
+     */
+    const located = await new PackageLocator(this.app.makePath()).locate(this.name)
+    if (located.source === 'git') {
+      this.logger.error(
+        `Cannot configure module "${this.name}" using its git URL. Use the package name instead`
+      )
+      this.exitCode = 1
+      return
+    }
+
+    const packageExports = await importPackage(
+      this.app,
+      located.entryPoint ? pathToFileURL(located.entryPoint).href : this.name
+    )
     if (!packageExports) {
       this.logger.error(`Cannot find module "${this.name}". Make sure to install it`)
       this.exitCode = 1
@@ -166,12 +280,6 @@ export default class Configure extends BaseCommand {
     /**
      * Run instructions
      */
-    try {
-      await packageExports.configure(this)
-    } catch (error) {
-      throw new RuntimeException(`Unable to configure package "${this.name}"`, {
-        cause: error,
-      })
-    }
+    await this.#configure(() => packageExports.configure(this))
   }
 }
@@ -0,0 +1,64 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import type { CommandOptions } from '../../types/ace.js'
+import { AceDaemon } from '../../modules/ace/daemon.js'
+import { BaseCommand } from '../../modules/ace/main.js'
+
+/**
+ * Starts the ace daemon. The daemon keeps the application booted and the
+ * subsequent "node ace" commands are executed through it, until it is
+ * stopped.
+ */
+export default class DaemonStart extends BaseCommand {
+  static commandName = 'daemon:start'
+  static description =
+    'Start a daemon to run the subsequent ace commands using a booted application'
+
+  static help = [
+    'The daemon keeps running in the foreground. Press "Ctrl+C" to stop it.',
+    'Restart the daemon after changing the application code, since the changes are not picked by the running daemon.',
+  ]
+
+  static options: CommandOptions = {
+    startApp: true,
+    staysAlive: true,
+  }
+
+  /**
+   * Logs the error and terminates the app, since the command
+   * otherwise keeps the process alive
+   */
+  async #fail(message: string) {
+    this.logger.error(message)
+    this.exitCode = 1
+    await this.terminate()
+  }
+
+  async run() {
+    if (!this.app.container.hasBinding(AceDaemon)) {
+      return this.#fail(
+        'Ace daemon is not enabled. Make sure to enable it using "ignitor.ace().useDaemon()"'
+      )
+    }
+
+    const daemon = await this.app.container.make(AceDaemon)
+    try {
+      await daemon.start()
+    } catch (error) {
+      return this.#fail(error.message)
+    }
+
+    this.app.terminating(() => daemon.stop())
+    this.app.listen('SIGINT', () => this.terminate())
+    this.app.listen('SIGTERM', () => this.terminate())
+
+    this.logger.success(`Ace daemon listening on "${daemon.socketPath}"`)
+  }
+}
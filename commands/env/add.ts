@@ -16,7 +16,8 @@ type AllowedTypes = (typeof ALLOWED_TYPES)[number]
 
 /**
  * The env:add command is used to add a new environment variable to the
- * `.env`, `.env.example` and `start/env.ts` files.
+ * `.env`, `.env.example` and `start/env.ts` files. The variable can be
+ * written to other env files, like `.env.test`, using the "--files" flag.
  */
 export default class EnvAdd extends BaseCommand {
   static commandName = 'env:add'
@@ -44,6 +45,14 @@ export default class EnvAdd extends BaseCommand {
   })
   declare enumValues: string[]
 
+  @flags.array({
+    description: 'Env files to write the variable to. Defaults to ".env" and ".env.example"',
+  })
+  declare files?: string[]
+
+  @flags.string({ description: 'Comment to write above the variable' })
+  declare comment?: string
+
   /**
    * Validate the type flag passed by the user
    */
@@ -94,13 +103,18 @@ export default class EnvAdd extends BaseCommand {
     }
 
     /**
-     * Add the environment variable to the `.env` and `.env.example` files
+     * Add the environment variable to the `.env` and `.env.example` files,
+     * or to the files selected using the "--files" flag
      */
     const codemods = await this.createCodemods()
     const transformedName = stringHelpers.snakeCase(this.name).toUpperCase()
     await codemods.defineEnvVariables(
       { [transformedName]: this.value },
-      { omitFromExample: [transformedName] }
+      {
+        omitFromExample: [transformedName],
+        files: this.files?.length ? this.files : undefined,
+        comments: this.comment ? { [transformedName]: this.comment } : undefined,
+      }
     )
 
     /**
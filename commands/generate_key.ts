@@ -29,19 +29,29 @@ export default class GenerateKey extends BaseCommand {
   })
   declare force: boolean
 
-  async run() {
-    let writeToFile = process.env.NODE_ENV !== 'production'
-    if (this.force) {
-      writeToFile = true
-    }
-
+  /**
+   * Find if the key must be written to the .env file. In production,
+   * the key is only displayed unless the "--force" flag is used
+   */
+  get #writeToFile() {
     if (this.show) {
-      writeToFile = false
+      return false
     }
+    return this.force || process.env.NODE_ENV !== 'production'
+  }
 
+  /**
+   * Updating the key in production invalidates the encrypted values.
+   * Hence, writing it to the .env file must be confirmed
+   */
+  get dangerous() {
+    return this.#writeToFile
+  }
+
+  async run() {
     const secureKey = string.random(32)
 
-    if (writeToFile) {
+    if (this.#writeToFile) {
       const editor = await EnvEditor.create(this.app.appRoot)
       editor.add('APP_KEY', secureKey, true)
       await editor.save()
@@ -0,0 +1,143 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { dirname } from 'node:path'
+import { mkdir, writeFile } from 'node:fs/promises'
+
+import type { CommandOptions } from '../types/ace.js'
+import { BaseCommand, flags } from '../modules/ace/main.js'
+import { BootProfiler, PROFILED_ENVIRONMENTS } from '../src/ignitor/boot_profiler.js'
+
+/**
+ * Prints the time taken by the providers, the preload files and
+ * the container bindings to boot the application
+ */
+export default class InspectBoot extends BaseCommand {
+  static commandName = 'inspect:boot'
+  static description =
+    'Inspect the time spent by providers, preload files and container bindings to boot the application'
+
+  static help = [
+    'The boot cycle of the console environment is profiled by default. Use the "--environment" flag to profile another environment',
+    '```',
+    '{{ binaryName }} inspect:boot --environment=web',
+    '```',
+    'The providers and the preload files of the environment are used to start the application. However, the HTTP server is not started',
+  ]
+
+  /**
+   * Making sure to start the application, so that the complete
+   * boot cycle is profiled
+   */
+  static options: CommandOptions = {
+    startApp: true,
+    completions: {
+      environment: PROFILED_ENVIRONMENTS,
+    },
+  }
+
+  /**
+   * The environment flag is read by the ace process to create
+   * the application for the given environment
+   */
+  @flags.string({
+    description: `Profile the boot cycle of the given environment. Accepted values are "${PROFILED_ENVIRONMENTS}"`,
+  })
+  declare environment?: string
+
+  /**
+   * The json flag is used to view the report as a JSON string
+   */
+  @flags.boolean({ description: 'Get the boot report as a JSON string' })
+  declare json: boolean
+
+  /**
+   * The trace flag is used to write the report in the Chrome
+   * trace event format
+   */
+  @flags.string({
+    description: 'Write the boot report to the given file in the Chrome trace event format',
+  })
+  declare trace?: string
+
+  /**
+   * Formats the duration in milliseconds
+   */
+  #formatDuration(duration: number) {
+    return `${duration.toFixed(2)}ms`
+  }
+
+  async run() {
+    if (!this.app.container.hasBinding(BootProfiler)) {
+      this.logger.error('Boot profiler is not available. Make sure to create the app using Ignitor')
+      this.exitCode = 1
+      return
+    }
+
+    /**
+     * The environment is selected by the ace process. It cannot
+     * be changed after the app has been created
+     */
+    if (this.environment !== undefined) {
+      if (!PROFILED_ENVIRONMENTS.some((one) => one === this.environment)) {
+        this.logger.error(
+          `Invalid environment "${this.environment}". Select from "${PROFILED_ENVIRONMENTS.join(', ')}"`
+        )
+        this.exitCode = 1
+        return
+      }
+
+      if (this.environment !== this.app.getEnvironment()) {
+        this.logger.error(
+          `Cannot profile the "${this.environment}" environment. The application is running in the "${this.app.getEnvironment()}" environment`
+        )
+        this.exitCode = 1
+        return
+      }
+    }
+
+    const profiler = await this.app.container.make(BootProfiler)
+    const report = profiler.getReport()
+
+    /**
+     * Write the chrome trace file
+     */
+    if (this.trace) {
+      const tracePath = this.app.makePath(this.trace)
+      await mkdir(dirname(tracePath), { recursive: true })
+      await writeFile(tracePath, JSON.stringify(profiler.toChromeTrace()))
+      this.logger.success(`Boot trace written to "${this.trace}"`)
+      return
+    }
+
+    /**
+     * Display as JSON
+     */
+    if (this.json) {
+      this.logger.log(JSON.stringify(report, null, 2))
+      return
+    }
+
+    /**
+     * Display as a table sorted by the slowest entries first
+     */
+    const table = this.ui.table().head(['Type', 'Name', 'Phase', 'Duration'])
+    ;[...report.entries]
+      .sort((a, b) => b.duration - a.duration)
+      .forEach((entry) => {
+        table.row([entry.kind, entry.name, entry.phase, this.#formatDuration(entry.duration)])
+      })
+
+    table.render()
+    if (report.duration !== undefined) {
+      this.logger.log('')
+      this.logger.info(`Application ready in ${this.#formatDuration(report.duration)}`)
+    }
+  }
+}
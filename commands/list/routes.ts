@@ -25,6 +25,9 @@ export default class ListRoutes extends BaseCommand {
    */
   static options: CommandOptions = {
     startApp: true,
+    completions: {
+      match: 'routes',
+    },
   }
 
   /**
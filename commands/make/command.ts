@@ -8,7 +8,7 @@
  */
 
 import { stubsRoot } from '../../stubs/main.js'
-import { args } from '../../modules/ace/main.js'
+import { args, flags } from '../../modules/ace/main.js'
 import { BaseCommand } from '../../modules/ace/main.js'
 
 /**
@@ -21,6 +21,9 @@ export default class MakeCommand extends BaseCommand {
   @args.string({ description: 'Name of the command' })
   declare name: string
 
+  @flags.dryRun()
+  declare dryRun?: boolean
+
   /**
    * The stub to use for generating the command class
    */
@@ -43,6 +43,9 @@ export default class MakeController extends BaseCommand {
   })
   declare api: boolean
 
+  @flags.dryRun()
+  declare dryRun?: boolean
+
   /**
    * The stub to use for generating the controller
    */
@@ -27,6 +27,14 @@ export default class MakeListener extends BaseCommand {
   })
   declare event: string
 
+  @flags.boolean({
+    description: 'Register the listener for the event inside the "start/events.ts" file',
+  })
+  declare register?: boolean
+
+  @flags.dryRun()
+  declare dryRun?: boolean
+
   /**
    * The stub to use for generating the event listener
    */
@@ -42,18 +50,45 @@ export default class MakeListener extends BaseCommand {
     const codemods = await this.createCodemods()
 
     if (this.event) {
-      const { exitCode } = await this.kernel.exec('make:event', [this.event])
+      const { exitCode } = await this.kernel.exec(
+        'make:event',
+        this.dryRun ? [this.event, '--dry-run'] : [this.event]
+      )
 
       /**
        * Create listener only when make:event is completed successfully
        */
       if (exitCode === 0) {
         const eventEntity = this.app.generators.createEntity(this.event)
-        await codemods.makeUsingStub(stubsRoot, this.stubPath, {
+        const entity = this.app.generators.createEntity(this.name)
+        const output = await codemods.makeUsingStub(stubsRoot, this.stubPath, {
           event: eventEntity,
           flags: this.parsed.flags,
-          entity: this.app.generators.createEntity(this.name),
+          entity,
         })
+
+        /**
+         * Register the listener for the event when the "--register"
+         * flag is used and the listener was created
+         */
+        if (output.status !== 'skipped' && this.register) {
+          const { generators } = this.app
+          const eventFileName = generators.eventFileName(eventEntity.name).replace(/\.ts$/, '')
+          const listenerFileName = generators.listenerFileName(entity.name).replace(/\.ts$/, '')
+
+          await codemods.registerEventListeners([
+            {
+              event: {
+                name: generators.eventName(eventEntity.name),
+                path: generators.importPath('#events', eventEntity.path, eventFileName),
+              },
+              listener: {
+                name: generators.listenerName(entity.name),
+                path: generators.importPath('#listeners', entity.path, listenerFileName),
+              },
+            },
+          ])
+        }
       }
 
       return
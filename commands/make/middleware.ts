@@ -12,6 +12,7 @@ import string from '@poppinss/utils/string'
 import { basename, extname, relative } from 'node:path'
 
 import { stubsRoot } from '../../stubs/main.js'
+import type { CommandOptions } from '../../types/ace.js'
 import { args, BaseCommand, flags } from '../../modules/ace/main.js'
 
 /**
@@ -22,12 +23,21 @@ export default class MakeMiddleware extends BaseCommand {
   static commandName = 'make:middleware'
   static description = 'Create a new middleware class for HTTP requests'
 
+  static options: CommandOptions = {
+    completions: {
+      stack: ['server', 'router', 'named'],
+    },
+  }
+
   @args.string({ description: 'Name of the middleware' })
   declare name: string
 
   @flags.string({ description: 'The stack in which to register the middleware', alias: 's' })
   declare stack?: 'server' | 'named' | 'router'
 
+  @flags.dryRun()
+  declare dryRun?: boolean
+
   /**
    * The stub to use for generating the middleware
    */
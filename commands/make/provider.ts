@@ -11,10 +11,17 @@ import { slash } from '@poppinss/utils'
 import { extname, relative } from 'node:path'
 
 import { stubsRoot } from '../../stubs/main.js'
+import type { CommandOptions } from '../../types/ace.js'
 import type { AppEnvironments } from '../../types/app.js'
 import { args, BaseCommand, flags } from '../../modules/ace/main.js'
 
-const ALLOWED_ENVIRONMENTS = ['web', 'console', 'test', 'repl'] satisfies AppEnvironments[]
+const ALLOWED_ENVIRONMENTS = [
+  'web',
+  'console',
+  'test',
+  'repl',
+  'worker',
+] satisfies AppEnvironments[]
 type AllowedAppEnvironments = typeof ALLOWED_ENVIRONMENTS
 
 /**
@@ -24,6 +31,12 @@ export default class MakeProvider extends BaseCommand {
   static commandName = 'make:provider'
   static description = 'Create a new service provider class'
 
+  static options: CommandOptions = {
+    completions: {
+      environments: ALLOWED_ENVIRONMENTS,
+    },
+  }
+
   @args.string({ description: 'Name of the provider' })
   declare name: string
 
@@ -40,6 +53,9 @@ export default class MakeProvider extends BaseCommand {
   })
   declare environments?: AllowedAppEnvironments
 
+  @flags.dryRun()
+  declare dryRun?: boolean
+
   /**
    * The stub to use for generating the provider class
    */
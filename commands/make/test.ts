@@ -8,6 +8,7 @@
  */
 
 import { stubsRoot } from '../../stubs/main.js'
+import type { CommandOptions } from '../../types/ace.js'
 import { args, flags, BaseCommand } from '../../modules/ace/main.js'
 
 /**
@@ -17,12 +18,21 @@ export default class MakeTest extends BaseCommand {
   static commandName = 'make:test'
   static description = 'Create a new Japa test file'
 
+  static options: CommandOptions = {
+    completions: {
+      suite: 'testSuites',
+    },
+  }
+
   @args.string({ description: 'Name of the test file' })
   declare name: string
 
   @flags.string({ description: 'The suite for which to create the test file', alias: 's' })
   declare suite?: string
 
+  @flags.dryRun()
+  declare dryRun?: boolean
+
   /**
    * The stub to use for generating the test file
    */
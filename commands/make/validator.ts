@@ -25,6 +25,9 @@ export default class MakeValidator extends BaseCommand {
   })
   declare resource: boolean
 
+  @flags.dryRun()
+  declare dryRun?: boolean
+
   /**
    * The stub to use for generating the validator
    */
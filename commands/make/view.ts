@@ -8,7 +8,7 @@
  */
 
 import { stubsRoot } from '../../stubs/main.js'
-import { args, BaseCommand } from '../../modules/ace/main.js'
+import { args, flags, BaseCommand } from '../../modules/ace/main.js'
 
 /**
  * Make a new EdgeJS template file
@@ -20,6 +20,9 @@ export default class MakeView extends BaseCommand {
   @args.string({ description: 'Name of the template' })
   declare name: string
 
+  @flags.dryRun()
+  declare dryRun?: boolean
+
   /**
    * The stub to use for generating the template
    */
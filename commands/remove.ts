@@ -0,0 +1,189 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { RuntimeException } from '@poppinss/utils'
+import { uninstallPackage } from '@antfu/install-pkg'
+
+import { args, BaseCommand, flags } from '../modules/ace/main.js'
+import {
+  importPackage,
+  getPackageManager,
+  type KnownPackageManager,
+} from '../modules/ace/packages.js'
+
+/**
+ * The remove command is used to unconfigure and `npm uninstall` a package
+ * in one go. The changes are reverted using the "unconfigure" hook
+ * exported by the package.
+ */
+export default class Remove extends BaseCommand {
+  static commandName = 'remove'
+  static description = 'Unconfigure and uninstall a package'
+
+  @args.string({ description: 'Package name' })
+  declare name: string
+
+  @flags.boolean({ description: 'Display logs in verbose mode' })
+  declare verbose?: boolean
+
+  @flags.string({ description: 'Select the package manager you want to use' })
+  declare packageManager?: KnownPackageManager
+
+  @flags.dryRun()
+  declare dryRun?: boolean
+
+  /**
+   * Removes VineJS provider
+   */
+  async #unconfigureVineJS() {
+    const codemods = await this.createCodemods()
+    await codemods.removeFromRcFile({ providers: ['@adonisjs/core/providers/vinejs_provider'] })
+  }
+
+  /**
+   * Removes Edge provider and the meta files
+   */
+  async #unconfigureEdge() {
+    const codemods = await this.createCodemods()
+    await codemods.removeFromRcFile({
+      providers: ['@adonisjs/core/providers/edge_provider'],
+      metaFiles: ['resources/views/**/*.edge'],
+    })
+  }
+
+  /**
+   * Reverts the changes made by the configure hook of the
+   * package. Returns false when the package cannot be
+   * found
+   */
+  async #unconfigurePackage() {
+    if (this.name === 'vinejs') {
+      await this.#unconfigureVineJS()
+      return true
+    }
+    if (this.name === 'edge') {
+      await this.#unconfigureEdge()
+      return true
+    }
+
+    const packageExports = await importPackage(this.app, this.name)
+    if (!packageExports) {
+      this.logger.error(`Cannot find module "${this.name}". Make sure it is installed`)
+      this.exitCode = 1
+      return false
+    }
+
+    /**
+     * Packages without the unconfigure hook are uninstalled
+     * anyway. Their configuration must be removed manually
+     */
+    if (!packageExports.unconfigure) {
+      this.logger.warning(
+        `The module "${this.name}" does not export the unconfigure hook. Make sure to remove its configuration manually`
+      )
+      return true
+    }
+
+    try {
+      await packageExports.unconfigure(this)
+      return true
+    } catch (error) {
+      throw new RuntimeException(`Unable to unconfigure package "${this.name}"`, {
+        cause: error,
+      })
+    }
+  }
+
+  /**
+   * Uninstall the package using the selected package manager
+   */
+  async #uninstallPackage(npmPackageName: string) {
+    const colors = this.colors
+    const spinner = this.logger
+      .await(`uninstalling ${colors.green(this.name)} using ${colors.grey(this.packageManager!)}`)
+      .start()
+
+    try {
+      await uninstallPackage(npmPackageName, {
+        silent: this.verbose === true ? false : true,
+        cwd: this.app.makePath(),
+        packageManager: this.packageManager,
+      })
+
+      spinner.update('package uninstalled successfully')
+      spinner.stop()
+
+      return true
+    } catch (error) {
+      spinner.update('unable to uninstall the package')
+      spinner.stop()
+
+      this.logger.fatal(error)
+      this.exitCode = 1
+      return false
+    }
+  }
+
+  /**
+   * Run method is invoked by ace automatically
+   */
+  async run() {
+    const colors = this.colors
+    this.packageManager = await getPackageManager(this.app, this.packageManager)
+
+    /**
+     * Handle special packages to remove
+     */
+    let npmPackageName = this.name
+    if (this.name === 'vinejs') {
+      npmPackageName = '@vinejs/vine'
+    } else if (this.name === 'edge') {
+      npmPackageName = 'edge.js'
+    }
+
+    /**
+     * Only the unconfigure hook is previewed in dry-run mode
+     */
+    if (this.dryRun) {
+      this.logger.info(`Skipping the removal of ${colors.green(this.name)} in dry-run mode`)
+      await this.#unconfigurePackage()
+      return
+    }
+
+    /**
+     * Prompt the user to confirm the removal
+     */
+    const cmd = colors.grey(`${this.packageManager} remove ${npmPackageName}`)
+    this.logger.info(`Uninstalling the package using the following command : ${cmd}`)
+
+    const shouldUninstall = await this.prompt.confirm('Continue ?', {
+      name: 'uninstall',
+      default: true,
+    })
+
+    if (!shouldUninstall) {
+      this.logger.info('Removal cancelled')
+      return
+    }
+
+    /**
+     * The package is unconfigured before uninstalling it, since
+     * the unconfigure hook is imported from the package
+     */
+    const wasUnconfigured = await this.#unconfigurePackage()
+    if (!wasUnconfigured || this.exitCode) {
+      return
+    }
+
+    const pkgWasUninstalled = await this.#uninstallPackage(npmPackageName)
+    if (pkgWasUninstalled) {
+      this.logger.success(`Unconfigured and uninstalled ${colors.green(this.name)}`)
+    }
+  }
+}
@@ -24,6 +24,9 @@ export default class Test extends BaseCommand {
   static options: CommandOptions = {
     allowUnknownFlags: true,
     staysAlive: true,
+    completions: {
+      suites: 'testSuites',
+    },
   }
 
   declare testsRunner: TestRunner
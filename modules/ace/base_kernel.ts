@@ -0,0 +1,26 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { Kernel as AceKernel } from '@adonisjs/ace'
+import type { AbstractBaseCommand } from '@adonisjs/ace/types'
+
+/**
+ * Base kernel shared by the ace kernel of the application and the
+ * toolkit kernel. The hidden commands are not listed, but can
+ * still be executed.
+ */
+export class BaseKernel<Command extends AbstractBaseCommand> extends AceKernel<Command> {
+  /**
+   * Returns the commands for a namespace, except the hidden
+   * commands
+   */
+  getNamespaceCommands(namespace?: string) {
+    return super.getNamespaceCommands(namespace).filter((command) => !command.options.hidden)
+  }
+}
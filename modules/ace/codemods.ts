@@ -9,7 +9,8 @@
 
 import { slash } from '@poppinss/utils'
 import { EventEmitter } from 'node:events'
-import { EnvEditor } from '@adonisjs/env/editor'
+import { rm, writeFile } from 'node:fs/promises'
+import { existsSync, readFileSync } from 'node:fs'
 import type { UIPrimitives } from '@adonisjs/ace/types'
 import type { CodeTransformer } from '@adonisjs/assembler/code_transformer'
 import type {
@@ -19,6 +20,19 @@ import type {
 } from '@adonisjs/assembler/types'
 
 import type { Application } from '../app.js'
+import type {
+  RouteNode,
+  PackageJsonNode,
+  PluginImportNode,
+  EventListenerNode,
+  RcFileEntriesNode,
+  RcFileTransformer,
+  ContainerBindingNode,
+} from '../../types/ace.js'
+import { createUnifiedDiff } from './unified_diff.js'
+import { EnvFileEditor } from './env_file_editor.js'
+import { JsonFileEditor } from './json_file_editor.js'
+import type { RemovalTransformer } from './removal_transformer.js'
 
 /**
  * Codemods to modify AdonisJS source files. The codemod APIs relies on
@@ -41,6 +55,18 @@ export class Codemods extends EventEmitter {
    */
   #cliLogger: UIPrimitives['logger']
 
+  /**
+   * Changes collected in dry-run mode. The "before" contents
+   * are null for new files
+   */
+  #changes: Map<string, { before: string | null; after: string }> = new Map()
+
+  /**
+   * Original contents of the files created or modified by the
+   * codemods. The contents are null for new files
+   */
+  #originals: Map<string, string | null> = new Map()
+
   /**
    * Overwrite existing files when generating files
    * from stubs
@@ -52,6 +78,13 @@ export class Codemods extends EventEmitter {
    */
   verboseInstallOutput = false
 
+  /**
+   * Collect the changes instead of writing them to the disk. The
+   * collected changes can be displayed as a unified diff using
+   * the "getDiff" method.
+   */
+  dryRun = false
+
   constructor(app: Application<any>, cliLogger: UIPrimitives['logger']) {
     super()
     this.#app = app
@@ -67,6 +100,7 @@ export class Codemods extends EventEmitter {
       if (!this.#codeTransformer) {
         const { CodeTransformer } = await import('@adonisjs/assembler/code_transformer')
         this.#codeTransformer = new CodeTransformer(this.#app.appRoot)
+        this.#interceptWrites(this.#codeTransformer)
       }
 
       return this.#codeTransformer
@@ -75,6 +109,59 @@ export class Codemods extends EventEmitter {
     }
   }
 
+  /**
+   * Records the contents of a file in dry-run mode
+   */
+  #recordChange(filePath: string, contents: string) {
+    const change = this.#changes.get(filePath)
+    if (change) {
+      change.after = contents
+      return
+    }
+
+    const before = existsSync(filePath) ? readFileSync(filePath, 'utf-8') : null
+    this.#changes.set(filePath, { before, after: contents })
+  }
+
+  /**
+   * Tracks the original contents of a file before it is created
+   * or modified, so that it can be restored on rollback
+   */
+  #trackFile(filePath: string) {
+    if (!this.#originals.has(filePath)) {
+      this.#originals.set(filePath, existsSync(filePath) ? readFileSync(filePath, 'utf-8') : null)
+    }
+  }
+
+  /**
+   * Intercepts the writes of the TsMorph project to track the
+   * modified files and to record them as changes in dry-run
+   * mode
+   */
+  #interceptWrites(transformer: CodeTransformer) {
+    const fileSystem = transformer.project.getFileSystem()
+    const { writeFile: write, writeFileSync: writeSync, mkdir, mkdirSync } = fileSystem
+
+    Object.assign(fileSystem, {
+      writeFile: async (filePath: string, contents: string) => {
+        if (this.dryRun) return this.#recordChange(filePath, contents)
+        this.#trackFile(filePath)
+        return write.call(fileSystem, filePath, contents)
+      },
+      writeFileSync: (filePath: string, contents: string) => {
+        if (this.dryRun) return this.#recordChange(filePath, contents)
+        this.#trackFile(filePath)
+        return writeSync.call(fileSystem, filePath, contents)
+      },
+      mkdir: async (dirPath: string) => {
+        if (!this.dryRun) return mkdir.call(fileSystem, dirPath)
+      },
+      mkdirSync: (dirPath: string) => {
+        if (!this.dryRun) return mkdirSync.call(fileSystem, dirPath)
+      },
+    })
+  }
+
   /**
    * Returns the installation command for different
    * package managers
@@ -100,22 +187,138 @@ export class Codemods extends EventEmitter {
   }
 
   /**
-   * Define one or more environment variables
+   * Returns the contents of a file. The changes collected in
+   * dry-run mode are returned when the file was modified
+   * already. Returns null when the file is missing
+   */
+  #readFile(filePath: string) {
+    return (
+      this.#changes.get(filePath)?.after ??
+      (existsSync(filePath) ? readFileSync(filePath, 'utf-8') : null)
+    )
+  }
+
+  /**
+   * Writes the file contents, or records them as changes
+   * in dry-run mode
+   */
+  async #writeFile(filePath: string, contents: string) {
+    if (this.dryRun) {
+      this.#recordChange(filePath, contents)
+    } else {
+      this.#trackFile(filePath)
+      await writeFile(filePath, contents)
+    }
+  }
+
+  /**
+   * Edits an env file relative from the application root.
+   * Missing files are not created and false is returned
+   * for them
+   */
+  async #editEnvFile(fileName: string, callback: (editor: EnvFileEditor) => void) {
+    const filePath = this.#app.makePath(fileName)
+    const contents = this.#readFile(filePath)
+    if (contents === null) {
+      return false
+    }
+
+    const editor = new EnvFileEditor(contents)
+    callback(editor)
+
+    const updatedContents = editor.toString()
+    if (updatedContents !== contents) {
+      await this.#writeFile(filePath, updatedContents)
+    }
+
+    return true
+  }
+
+  /**
+   * Reports the outcome of editing the env files. The ".env.example"
+   * file is reported as part of the ".env" file, unless the ".env"
+   * file is missing
+   */
+  #reportEnvFileActions(files: string[], missingFiles: string[]) {
+    files.forEach((file) => {
+      if (file === '.env.example' && files.includes('.env') && !missingFiles.includes('.env')) {
+        return
+      }
+
+      const action = this.#cliLogger.action(`update ${file} file`)
+      if (missingFiles.includes(file)) {
+        action.skipped('File does not exist')
+      } else {
+        action.succeeded()
+      }
+    })
+  }
+
+  /**
+   * Define one or more environment variables. The variables are
+   * written to the ".env" and the ".env.example" files, unless
+   * a different list of files is specified. For example:
+   *
+   * ```ts
+   * await codemods.defineEnvVariables(
+   *   { MAIL_MAILER: 'smtp', SMTP_HOST: 'localhost' },
+   *   {
+   *     comment: 'Variables for configuring the mail package',
+   *     comments: { SMTP_HOST: 'Hostname of the SMTP server' },
+   *   }
+   * )
+   * await codemods.defineEnvVariables({ MAIL_MAILER: 'memory' }, { files: ['.env.test'] })
+   * ```
+   *
+   * The existing variables are updated in place and the new
+   * variables are added under the "comment" heading. The files
+   * that do not exist are not created.
    */
   async defineEnvVariables<T extends Record<string, number | string | boolean>>(
     environmentVariables: T,
-    options?: { omitFromExample?: Array<keyof T> }
+    options?: {
+      /**
+       * Variables to write with an empty value inside the
+       * ".env.example" file
+       */
+      omitFromExample?: Array<keyof T>
+
+      /**
+       * Env files to write to. Defaults to ".env" and ".env.example"
+       */
+      files?: string[]
+
+      /**
+       * Heading to group the new variables under
+       */
+      comment?: string
+
+      /**
+       * Comments to write above the new variables
+       */
+      comments?: Partial<Record<keyof T, string>>
+    }
   ) {
-    const editor = new EnvEditor(this.#app.appRoot)
-    await editor.load()
+    const files = options?.files ?? ['.env', '.env.example']
+    const missingFiles: string[] = []
+
+    for (const file of files) {
+      const edited = await this.#editEnvFile(file, (editor) => {
+        editor.define(environmentVariables, {
+          comment: options?.comment,
+          comments: options?.comments as Record<string, string | undefined>,
+          withEmptyValues: file.endsWith('.env.example')
+            ? (options?.omitFromExample as string[])
+            : undefined,
+        })
+      })
 
-    Object.keys(environmentVariables).forEach((key) => {
-      const value = environmentVariables[key]
-      editor.add(key, value, options?.omitFromExample?.includes(key))
-    })
+      if (!edited) {
+        missingFiles.push(file)
+      }
+    }
 
-    await editor.save()
-    this.#cliLogger.action('update .env file').succeeded()
+    this.#reportEnvFileActions(files, missingFiles)
   }
 
   /**
@@ -205,10 +408,260 @@ export class Codemods extends EventEmitter {
     }
   }
 
+  /**
+   * Register routes, groups and resources inside the
+   * "start/routes.ts" file. The existing routes are
+   * not registered again
+   */
+  async registerRoutes(routes: RouteNode[]) {
+    const transformer = await this.#getCodeTransformer()
+    if (!transformer) {
+      this.#cliLogger.warning(
+        'Cannot update "start/routes.ts" file. Install "@adonisjs/assembler" to modify source files'
+      )
+      return
+    }
+
+    const action = this.#cliLogger.action('update start/routes.ts file')
+    try {
+      const { RoutesTransformer } = await import('./routes_transformer.js')
+      await new RoutesTransformer(this.#app.appRoot, transformer.project).addRoutes(routes)
+      action.succeeded()
+    } catch (error) {
+      this.emit('error', error)
+      action.failed(error.message)
+    }
+  }
+
+  /**
+   * Register event listeners inside the "start/events.ts" file.
+   * The file is created and registered as a preload file when
+   * missing
+   */
+  async registerEventListeners(listeners: EventListenerNode[]) {
+    const transformer = await this.#getCodeTransformer()
+    if (!transformer) {
+      this.#cliLogger.warning(
+        'Cannot update "start/events.ts" file. Install "@adonisjs/assembler" to modify source files'
+      )
+      return
+    }
+
+    const { EventsTransformer } = await import('./events_transformer.js')
+    const eventsTransformer = new EventsTransformer(this.#app.appRoot, transformer.project)
+    const isNewFile = !eventsTransformer.hasEventsFile()
+
+    const action = this.#cliLogger.action(
+      isNewFile ? 'create start/events.ts' : 'update start/events.ts file'
+    )
+    try {
+      await eventsTransformer.addListeners(listeners)
+      action.succeeded()
+    } catch (error) {
+      this.emit('error', error)
+      action.failed(error.message)
+      return
+    }
+
+    if (isNewFile) {
+      await this.updateRcFile((rcFile) => {
+        rcFile.addPreloadFile('#start/events')
+      })
+    }
+  }
+
+  /**
+   * Register container bindings inside the "register" method
+   * of a provider. The provider path must be relative from
+   * the application root
+   */
+  async registerBindings(providerPath: string, bindings: ContainerBindingNode[]) {
+    const transformer = await this.#getCodeTransformer()
+    if (!transformer) {
+      this.#cliLogger.warning(
+        `Cannot update "${providerPath}" file. Install "@adonisjs/assembler" to modify source files`
+      )
+      return
+    }
+
+    const action = this.#cliLogger.action(`update ${providerPath} file`)
+    try {
+      const { ProviderTransformer } = await import('./provider_transformer.js')
+      await new ProviderTransformer(this.#app.appRoot, transformer.project).addBindings(
+        providerPath,
+        bindings
+      )
+      action.succeeded()
+    } catch (error) {
+      this.emit('error', error)
+      action.failed(error.message)
+    }
+  }
+
+  /**
+   * Update a property of the object passed to the "defineConfig"
+   * call of a config file. The path is a dot separated string or
+   * an array of the property names and the value is the code for
+   * the property initializer.
+   *
+   * The existing properties are not modified, unless the
+   * "overwriteExisting" option is enabled
+   *
+   * ```ts
+   * await codemods.updateConfig('config/app.ts', 'http.cookie.maxAge', `'2h'`)
+   * ```
+   */
+  async updateConfig(
+    file: string,
+    path: string | string[],
+    valueExpression: string,
+    options?: { overwriteExisting?: boolean }
+  ) {
+    const project = await this.getTsMorphProject()
+    if (!project) {
+      return
+    }
+
+    const propertyPath = typeof path === 'string' ? path : path.join('.')
+    const action = this.#cliLogger.action(`update ${file} file`)
+    try {
+      const { ConfigTransformer } = await import('./config_transformer.js')
+      const updated = await new ConfigTransformer(this.#app.appRoot, project).update(
+        file,
+        path,
+        valueExpression,
+        { overwrite: options?.overwriteExisting }
+      )
+
+      if (updated) {
+        action.succeeded()
+      } else {
+        action.skipped(`"${propertyPath}" is already defined`)
+      }
+    } catch (error) {
+      this.emit('error', error)
+      action.failed(error.message)
+    }
+  }
+
+  /**
+   * Adds the subpath imports aliases to the "paths" of the
+   * "tsconfig.json" file. The file is updated only when
+   * it defines the "paths" already
+   */
+  async #addTsConfigPaths(imports: Record<string, string>, overwrite: boolean) {
+    const filePath = this.#app.makePath('tsconfig.json')
+    const contents = this.#readFile(filePath)
+    if (contents === null) {
+      return
+    }
+
+    let editor: JsonFileEditor
+    try {
+      editor = new JsonFileEditor(contents)
+    } catch {
+      this.#cliLogger.warning(
+        'Cannot parse "tsconfig.json" file. Add the imports aliases to "compilerOptions.paths" manually'
+      )
+      return
+    }
+
+    if (!editor.get(['compilerOptions', 'paths'])) {
+      return
+    }
+
+    const paths = Object.fromEntries(Object.entries(imports).map(([key, value]) => [key, [value]]))
+    const skipped = editor.merge(['compilerOptions', 'paths'], paths, overwrite)
+
+    if (!editor.isModified) {
+      if (skipped.length) {
+        this.#cliLogger
+          .action('update tsconfig.json file')
+          .skipped(this.#describeSkippedKeys(skipped))
+      }
+      return
+    }
+
+    await this.#writeFile(filePath, editor.toString())
+    this.#cliLogger.action('update tsconfig.json file').succeeded()
+    if (skipped.length) {
+      this.#cliLogger.warning(
+        `Skipped updating tsconfig.json file. ${this.#describeSkippedKeys(skipped)}`
+      )
+    }
+  }
+
+  /**
+   * Returns the reason for skipping the JSON file keys, since
+   * they are already defined
+   */
+  #describeSkippedKeys(skipped: string[]) {
+    const keys = skipped.map((key) => `"${key}"`).join(', ')
+    return `${keys} ${skipped.length > 1 ? 'are' : 'is'} already defined`
+  }
+
+  /**
+   * Update the subpath imports, the scripts and the engines
+   * defined inside the "package.json" file. The order of the
+   * existing keys and the indentation of the file are kept.
+   *
+   * The existing entries are not modified, unless the
+   * "overwriteExisting" option is enabled. The imports aliases
+   * are also added to the "paths" of the "tsconfig.json" file,
+   * when the file uses paths
+   *
+   * ```ts
+   * await codemods.updatePackageJson({
+   *   imports: { '#mails/*': './app/mails/*.js' },
+   *   scripts: { 'queue:work': 'node ace queue:work' },
+   * })
+   * ```
+   */
+  async updatePackageJson(updates: PackageJsonNode, options?: { overwriteExisting?: boolean }) {
+    const filePath = this.#app.makePath('package.json')
+    const overwrite = options?.overwriteExisting === true
+    const action = this.#cliLogger.action('update package.json file')
+
+    try {
+      const contents = this.#readFile(filePath)
+      if (contents === null) {
+        throw new Error('Cannot find "package.json" file')
+      }
+
+      const editor = new JsonFileEditor(contents)
+      const skipped = (['imports', 'scripts', 'engines'] as const).flatMap((section) => {
+        return updates[section] ? editor.merge([section], updates[section], overwrite) : []
+      })
+
+      if (editor.isModified) {
+        await this.#writeFile(filePath, editor.toString())
+      }
+
+      if (skipped.length && !editor.isModified) {
+        action.skipped(this.#describeSkippedKeys(skipped))
+      } else {
+        action.succeeded()
+        if (skipped.length) {
+          this.#cliLogger.warning(
+            `Skipped updating package.json file. ${this.#describeSkippedKeys(skipped)}`
+          )
+        }
+      }
+    } catch (error) {
+      this.emit('error', error)
+      action.failed(error.message)
+      return
+    }
+
+    if (updates.imports) {
+      await this.#addTsConfigPaths(updates.imports, overwrite)
+    }
+  }
+
   /**
    * Update RCFile
    */
-  async updateRcFile(...params: Parameters<CodeTransformer['updateRcFile']>) {
+  async updateRcFile(callback: (rcFile: RcFileTransformer) => void) {
     const transformer = await this.#getCodeTransformer()
     if (!transformer) {
       this.#cliLogger.warning(
@@ -219,7 +672,7 @@ export class Codemods extends EventEmitter {
 
     const action = this.#cliLogger.action('update adonisrc.ts file')
     try {
-      await transformer.updateRcFile(...params)
+      await transformer.updateRcFile(callback)
       action.succeeded()
     } catch (error) {
       this.emit('error', error)
@@ -271,13 +724,124 @@ export class Codemods extends EventEmitter {
     }
   }
 
+  /**
+   * Removes the entries from a source file using the removal
+   * transformer
+   */
+  async #removeUsing(
+    fileName: string,
+    callback: (transformer: RemovalTransformer) => Promise<void>
+  ) {
+    const transformer = await this.#getCodeTransformer()
+    if (!transformer) {
+      this.#cliLogger.warning(
+        `Cannot update "${fileName}" file. Install "@adonisjs/assembler" to modify source files`
+      )
+      return
+    }
+
+    const action = this.#cliLogger.action(`update ${fileName} file`)
+    try {
+      const { RemovalTransformer } = await import('./removal_transformer.js')
+      await callback(new RemovalTransformer(this.#app.appRoot, transformer.project))
+      action.succeeded()
+    } catch (error) {
+      this.emit('error', error)
+      action.failed(error.message)
+    }
+  }
+
+  /**
+   * Remove the providers, the commands, the preload files
+   * and the meta files from the "adonisrc.ts" file
+   */
+  async removeFromRcFile(entries: RcFileEntriesNode) {
+    await this.#removeUsing('adonisrc.ts', (transformer) => transformer.removeFromRcFile(entries))
+  }
+
+  /**
+   * Remove middleware from the "start/kernel.ts" file
+   */
+  async removeMiddleware(stack: 'server' | 'router' | 'named', middleware: MiddlewareNode[]) {
+    await this.#removeUsing('start/kernel.ts', (transformer) => {
+      return transformer.removeMiddleware(stack, middleware)
+    })
+  }
+
+  /**
+   * Remove validations of the environment variables from the
+   * "start/env.ts" file
+   */
+  async removeEnvValidations(variables: string[]) {
+    await this.#removeUsing('start/env.ts', (transformer) => {
+      return transformer.removeEnvValidations(variables)
+    })
+  }
+
+  /**
+   * Remove one or more environment variables from the ".env"
+   * and the ".env.example" files, unless a different list
+   * of files is specified
+   */
+  async removeEnvVariables(variables: string[], options?: { files?: string[] }) {
+    const files = options?.files ?? ['.env', '.env.example']
+    const missingFiles: string[] = []
+
+    for (const file of files) {
+      if (!(await this.#editEnvFile(file, (editor) => editor.remove(variables)))) {
+        missingFiles.push(file)
+      }
+    }
+
+    this.#reportEnvFileActions(files, missingFiles)
+  }
+
+  /**
+   * Remove a Vite plugin from the "vite.config.ts" file. The
+   * imports of the plugin are removed when unused
+   */
+  async removeVitePlugin(pluginCall: string, importDeclarations: PluginImportNode[]) {
+    await this.#removeUsing('vite.config.ts', (transformer) => {
+      return transformer.removePlugin('./vite.config.ts', pluginCall, importDeclarations)
+    })
+  }
+
+  /**
+   * Remove a Japa plugin from the "tests/bootstrap.ts" file. The
+   * imports of the plugin are removed when unused
+   */
+  async removeJapaPlugin(pluginCall: string, importDeclarations: PluginImportNode[]) {
+    await this.#removeUsing('tests/bootstrap.ts', (transformer) => {
+      return transformer.removePlugin('./tests/bootstrap.ts', pluginCall, importDeclarations)
+    })
+  }
+
   /**
    * Generate the stub
    */
   async makeUsingStub(stubsRoot: string, stubPath: string, stubState: Record<string, any>) {
     const stubs = await this.#app.stubs.create()
     const stub = await stubs.build(stubPath, { source: stubsRoot })
-    const output = await stub.generate({ force: this.overwriteExisting, ...stubState })
+
+    let output: Awaited<ReturnType<typeof stub.generate>>
+    if (this.dryRun) {
+      const { force, ...prepared } = await stub.prepare({
+        force: this.overwriteExisting,
+        ...stubState,
+      })
+      const hasFile = this.#changes.has(prepared.destination) || existsSync(prepared.destination)
+
+      if (hasFile && !force) {
+        output = { ...prepared, status: 'skipped', skipReason: 'File already exists' }
+      } else {
+        this.#recordChange(prepared.destination, prepared.contents)
+        output = { ...prepared, status: hasFile ? 'force_created' : 'created', skipReason: null }
+      }
+    } else {
+      const { destination } = await stub.prepare({ force: this.overwriteExisting, ...stubState })
+      this.#trackFile(destination)
+      output = await stub.generate({ force: this.overwriteExisting, ...stubState })
+    }
 
     const entityFileName = slash(this.#app.relativePath(output.destination))
     const result = { ...output, relativeFileName: entityFileName }
@@ -316,6 +880,13 @@ export class Codemods extends EventEmitter {
       return
     }
 
+    if (this.dryRun) {
+      this.#cliLogger.info('Skipping packages installation in dry-run mode')
+      this.#cliLogger.log(`devDependencies: ${devDependencies.join(',')}`)
+      this.#cliLogger.log(`dependencies: ${dependencies.join(',')}`)
+      return
+    }
+
     const packageManager = await transformer.detectPackageManager(appPath)
 
     const spinner = this.#cliLogger.await(
@@ -377,4 +948,70 @@ export class Codemods extends EventEmitter {
     )
     this.#cliLogger.log(this.#getInstallationCommands(dependencies, packageManager || 'npm', false))
   }
+
+  /**
+   * Restores the files created or modified by the codemods to
+   * their original state. The new files are removed
+   */
+  async rollback() {
+    const files = [...this.#originals.entries()].reverse()
+    this.#originals.clear()
+
+    for (const [filePath, contents] of files) {
+      const fileName = slash(this.#app.relativePath(filePath))
+      const action = this.#cliLogger.action(
+        contents === null ? `delete ${fileName}` : `restore ${fileName}`
+      )
+
+      try {
+        if (contents === null) {
+          await rm(filePath, { force: true })
+        } else {
+          await writeFile(filePath, contents)
+        }
+        action.succeeded()
+      } catch (error) {
+        action.failed(error.message)
+      }
+    }
+  }
+
+  /**
+   * Returns the unified diff of the changes collected in
+   * dry-run mode
+   */
+  getDiff() {
+    return [...this.#changes.entries()]
+      .map(([filePath, { before, after }]) => {
+        return createUnifiedDiff(slash(this.#app.relativePath(filePath)), before, after)
+      })
+      .filter((diff) => !!diff)
+      .join('\n')
+  }
+
+  /**
+   * Displays the changes collected in dry-run mode
+   */
+  printDiff() {
+    const diff = this.getDiff()
+    if (!diff) {
+      this.#cliLogger.info('Dry run completed. There are no changes to apply')
+      return
+    }
+
+    const colors = this.#cliLogger.getColors()
+    this.#cliLogger.log(
+      diff
+        .split('\n')
+        .map((line) => {
+          if (line.startsWith('+++') || line.startsWith('---')) return colors.bold(line)
+          if (line.startsWith('@@')) return colors.cyan(line)
+          if (line.startsWith('+')) return colors.green(line)
+          if (line.startsWith('-')) return colors.red(line)
+          return line
+        })
+        .join('\n')
+    )
+    this.#cliLogger.info('Dry run completed. The changes were not written to the disk')
+  }
 }
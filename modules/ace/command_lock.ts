@@ -0,0 +1,313 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { dirname } from 'node:path'
+import { readFileSync, unlinkSync } from 'node:fs'
+import { randomUUID } from 'node:crypto'
+import { setTimeout } from 'node:timers/promises'
+import { link, mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises'
+
+import debug from '../../src/debug.js'
+
+/**
+ * Contents of the lock file
+ */
+type LockFileContents = {
+  pid: number
+  owner: string
+  expiresAt: number
+}
+
+/**
+ * Maximum delay accepted by the timers
+ */
+const MAX_REFRESH_INTERVAL = 2 ** 31 - 1
+
+/**
+ * A file based lock used by the ace commands to prevent concurrent
+ * runs. The lock is created by writing the lock file exclusively
+ * and is considered stale when it has expired or the process
+ * holding it is not running anymore.
+ *
+ * The expiry of an acquired lock is extended periodically, so that
+ * the commands running longer than the TTL keep holding the lock.
+ */
+export class CommandLock {
+  /**
+   * Absolute path to the lock file
+   */
+  #filePath: string
+
+  /**
+   * Time in milliseconds after which the lock expires
+   */
+  #ttl: number
+
+  /**
+   * Unique id of the lock owner, written to the lock file
+   */
+  #owner: string = randomUUID()
+
+  /**
+   * Find if the lock is held by the current process
+   */
+  #isAcquired: boolean = false
+
+  /**
+   * Timer used to extend the expiry of the acquired lock
+   */
+  #refreshTimer?: NodeJS.Timeout
+
+  /**
+   * Releases the lock when the process exits without
+   * releasing it
+   */
+  #exitListener = () => this.#releaseSync()
+
+  constructor(filePath: string, options: { ttl: number }) {
+    this.#filePath = filePath
+    this.#ttl = options.ttl
+  }
+
+  /**
+   * Find if the lock is held by the current process
+   */
+  get isAcquired() {
+    return this.#isAcquired
+  }
+
+  /**
+   * Find if the process with the given pid is running
+   */
+  #isProcessRunning(pid: number) {
+    try {
+      process.kill(pid, 0)
+      return true
+    } catch (error) {
+      return error.code === 'EPERM'
+    }
+  }
+
+  /**
+   * Returns the contents for the lock file
+   */
+  #createContents() {
+    const contents: LockFileContents = {
+      pid: process.pid,
+      owner: this.#owner,
+      expiresAt: Date.now() + this.#ttl,
+    }
+    return JSON.stringify(contents)
+  }
+
+  /**
+   * Reads the raw contents of a lock file. Returns undefined when
+   * the file does not exist
+   */
+  async #readRaw(filePath: string) {
+    try {
+      return await readFile(filePath, 'utf-8')
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Find if the lock file contents are stale. Unreadable lock
+   * files are considered stale too
+   */
+  #isStale(rawContents: string) {
+    try {
+      const contents: LockFileContents = JSON.parse(rawContents)
+      return contents.expiresAt <= Date.now() || !this.#isProcessRunning(contents.pid)
+    } catch {
+      return true
+    }
+  }
+
+  /**
+   * Find if the lock file is owned by the current instance
+   */
+  #isOwned(rawContents?: string) {
+    try {
+      return !!rawContents && JSON.parse(rawContents).owner === this.#owner
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Writes the lock file exclusively. Returns false when the
+   * lock file already exists.
+   *
+   * The contents are written to a temporary file first, which is
+   * then linked as the lock file. Therefore, other processes never
+   * observe an empty lock file.
+   */
+  async #write() {
+    await mkdir(dirname(this.#filePath), { recursive: true })
+
+    const tempPath = `${this.#filePath}.${this.#owner}.tmp`
+    await writeFile(tempPath, this.#createContents())
+
+    try {
+      await link(tempPath, this.#filePath)
+      return true
+    } catch (error) {
+      if (error.code === 'EEXIST') {
+        return false
+      }
+      throw error
+    } finally {
+      await rm(tempPath, { force: true })
+    }
+  }
+
+  /**
+   * Takes over a stale lock. The lock file is renamed atomically,
+   * so that only one process claims it. The claimed file is moved
+   * back when it is not the stale lock anymore, since another
+   * process has taken over the lock in the meantime.
+   */
+  async #takeOver(staleContents: string) {
+    const claimPath = `${this.#filePath}.${this.#owner}.stale`
+
+    try {
+      await rename(this.#filePath, claimPath)
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return this.#write()
+      }
+      throw error
+    }
+
+    if ((await this.#readRaw(claimPath)) !== staleContents) {
+      await rename(claimPath, this.#filePath)
+      return false
+    }
+
+    debug('removed stale command lock "%s"', this.#filePath)
+    await rm(claimPath, { force: true })
+    return this.#write()
+  }
+
+  /**
+   * Extends the expiry of the acquired lock, as long as it is
+   * owned by the current instance
+   */
+  async #refresh() {
+    try {
+      if (!this.#isOwned(await this.#readRaw(this.#filePath))) {
+        return
+      }
+
+      const tempPath = `${this.#filePath}.${this.#owner}.tmp`
+      await writeFile(tempPath, this.#createContents())
+      await rename(tempPath, this.#filePath)
+    } catch (error) {
+      debug('unable to refresh command lock "%s" %O', this.#filePath, error)
+    }
+  }
+
+  /**
+   * Stops extending the expiry of the lock
+   */
+  #stopRefreshing() {
+    clearInterval(this.#refreshTimer)
+    this.#refreshTimer = undefined
+  }
+
+  /**
+   * Removes the lock file synchronously, if owned by the
+   * current instance
+   */
+  #releaseSync() {
+    if (!this.#isAcquired) {
+      return
+    }
+
+    this.#isAcquired = false
+    this.#stopRefreshing()
+    process.off('exit', this.#exitListener)
+    try {
+      if (this.#isOwned(readFileSync(this.#filePath, 'utf-8'))) {
+        unlinkSync(this.#filePath)
+      }
+    } catch {}
+  }
+
+  /**
+   * Acquires the lock. Returns false when the lock is held
+   * by another process.
+   */
+  async acquire(): Promise<boolean> {
+    if (this.#isAcquired) {
+      return true
+    }
+
+    let isWritten = await this.#write()
+    if (!isWritten) {
+      const contents = await this.#readRaw(this.#filePath)
+      isWritten =
+        contents === undefined
+          ? await this.#write()
+          : this.#isStale(contents) && (await this.#takeOver(contents))
+    }
+
+    if (isWritten) {
+      debug('acquired command lock "%s"', this.#filePath)
+      this.#isAcquired = true
+      this.#refreshTimer = setInterval(
+        () => this.#refresh(),
+        Math.min(this.#ttl / 2, MAX_REFRESH_INTERVAL)
+      ).unref()
+      process.on('exit', this.#exitListener)
+    }
+
+    return isWritten
+  }
+
+  /**
+   * Acquires the lock by waiting for the other process to release
+   * it. Returns false when the lock cannot be acquired within
+   * the timeout.
+   */
+  async waitAndAcquire(timeout: number, pollInterval: number = 100): Promise<boolean> {
+    const startedAt = Date.now()
+
+    while (!(await this.acquire())) {
+      if (Date.now() - startedAt >= timeout) {
+        return false
+      }
+      await setTimeout(pollInterval)
+    }
+
+    return true
+  }
+
+  /**
+   * Releases the lock, if held by the current process
+   */
+  async release() {
+    if (!this.#isAcquired) {
+      return
+    }
+
+    this.#isAcquired = false
+    this.#stopRefreshing()
+    process.off('exit', this.#exitListener)
+    if (this.#isOwned(await this.#readRaw(this.#filePath))) {
+      await rm(this.#filePath, { force: true })
+    }
+    debug('released command lock "%s"', this.#filePath)
+  }
+}
@@ -0,0 +1,173 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import type { Kernel } from './kernel.js'
+import type { Argument, CommandMetaData, Flag } from '../../types/ace.js'
+
+/**
+ * The command palette lets the user pick a command from the list of
+ * commands and prompts for the args and the flags accepted by the
+ * selected command.
+ *
+ * The output is the argv to execute the command, along with the
+ * equivalent CLI invocation.
+ */
+export class CommandPalette {
+  #kernel: Kernel
+
+  constructor(kernel: Kernel) {
+    this.#kernel = kernel
+  }
+
+  /**
+   * Quotes a value to be used inside the shell
+   */
+  #quote(value: string) {
+    if (/^[\w@%+=:,./-]+$/.test(value)) {
+      return value
+    }
+    return `'${value.replace(/'/g, `'\\''`)}'`
+  }
+
+  /**
+   * Validates a value is not empty
+   */
+  #validateRequired(value: string) {
+    return value.trim().length > 0 || 'Enter a value'
+  }
+
+  /**
+   * Prompts for the value of an arg
+   */
+  async #askArg(arg: Omit<Argument, 'parse'>): Promise<string[]> {
+    const prompt = this.#kernel.prompt
+    const title = arg.description
+      ? `Enter ${arg.argumentName} (${arg.description})`
+      : `Enter ${arg.argumentName}`
+
+    if (arg.type === 'spread') {
+      const values = await prompt.list(title, {
+        name: arg.name,
+        validate: (value) => value.length > 0 || 'Enter at least one value',
+      })
+      return values.map((value) => value.trim()).filter((value) => value.length > 0)
+    }
+
+    const value = await prompt.ask(title, {
+      name: arg.name,
+      validate: (input) => this.#validateRequired(input),
+    })
+    return [value]
+  }
+
+  /**
+   * Prompts for the value of a flag and returns the flag with
+   * its value(s)
+   */
+  async #askFlag(flag: Omit<Flag, 'parse'>): Promise<string[]> {
+    const prompt = this.#kernel.prompt
+    const flagName = `--${flag.flagName}`
+
+    if (flag.type === 'boolean') {
+      return [flagName]
+    }
+
+    const title = flag.description ? `Enter ${flagName} (${flag.description})` : `Enter ${flagName}`
+
+    if (flag.type === 'array') {
+      const values = await prompt.list(title, {
+        name: flag.name,
+        validate: (value) => value.length > 0 || 'Enter at least one value',
+      })
+      return values.flatMap((value) => [flagName, value.trim()])
+    }
+
+    const value = await prompt.ask(title, {
+      name: flag.name,
+      validate: (input) => {
+        if (flag.type === 'number' && Number.isNaN(Number(input))) {
+          return 'Enter a number'
+        }
+        return this.#validateRequired(input)
+      },
+    })
+
+    return [flagName, value]
+  }
+
+  /**
+   * Prompts to pick a command
+   */
+  async #pickCommand(): Promise<string> {
+    const commands = this.#kernel.getCommands().filter((command) => !command.options.hidden)
+
+    const commandName = await this.#kernel.prompt.autocomplete(
+      'Select the command to run',
+      commands.map((command) => command.commandName),
+      { name: 'command', limit: 10 }
+    )
+
+    return commandName
+  }
+
+  /**
+   * Prompts to pick the flags to use
+   */
+  async #pickFlags(command: CommandMetaData): Promise<Omit<Flag, 'parse'>[]> {
+    if (!command.flags.length) {
+      return []
+    }
+
+    const flagNames = await this.#kernel.prompt.multiple(
+      'Select the flags to use',
+      command.flags.map((flag) => {
+        return { name: flag.name, message: `--${flag.flagName}`, hint: flag.description }
+      }),
+      { name: 'flags' }
+    )
+
+    return command.flags.filter((flag) => flagNames.includes(flag.name))
+  }
+
+  /**
+   * Returns the CLI invocation for the given argv
+   */
+  toCLIInvocation(argv: string[]) {
+    const binary = this.#kernel.info.get('binary')
+    return [
+      typeof binary === 'string' ? binary : 'node ace',
+      ...argv.map((value) => this.#quote(value)),
+    ].join(' ')
+  }
+
+  /**
+   * Displays the prompts and returns the argv to execute
+   * the selected command
+   */
+  async pick(): Promise<string[]> {
+    const commandName = await this.#pickCommand()
+    const command = this.#kernel.getCommand(commandName)
+    const argv: string[] = [commandName]
+    if (!command) {
+      return argv
+    }
+
+    for (const arg of command.args) {
+      if (arg.required !== false) {
+        argv.push(...(await this.#askArg(arg)))
+      }
+    }
+
+    for (const flag of await this.#pickFlags(command)) {
+      argv.push(...(await this.#askFlag(flag)))
+    }
+
+    return argv
+  }
+}
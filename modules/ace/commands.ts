@@ -7,11 +7,247 @@
  * file that was distributed with this source code.
  */
 
+import { userInfo } from 'node:os'
+import useColors from '@poppinss/colors'
+import { EnvLoader, EnvParser } from '@adonisjs/env'
 import { BaseCommand as AceBaseCommand, ListCommand as AceListCommand } from '@adonisjs/ace'
 
 import { Kernel } from './kernel.js'
+import { CommandLock } from './command_lock.js'
+import type { Codemods } from './codemods.js'
+import string from '../../src/helpers/string.js'
+import { RuntimeException } from '../../src/exceptions.js'
 import type { ApplicationService } from '../../src/types.js'
-import type { CommandOptions, ParsedOutput, UIPrimitives } from '../../types/ace.js'
+import type {
+  CommandOptions,
+  ParsedOutput,
+  UIPrimitives,
+  CommandJSONOutput,
+} from '../../types/ace.js'
+
+/**
+ * Codemods instances created in dry-run mode. A command re-uses the
+ * same instance, so that all the changes are collected together
+ * and displayed once the command finishes
+ */
+const dryRunCodemods: WeakMap<BaseCommand, Codemods> = new WeakMap()
+
+/**
+ * Returns the mode of the UI primitives. The cliui does not expose
+ * the mode, hence we infer it from the colors in use, since the
+ * colors are switched along with the mode
+ */
+function getUIMode(ui: UIPrimitives) {
+  if (ui.colors.constructor === useColors.raw().constructor) {
+    return 'raw'
+  }
+  if (ui.colors.constructor === useColors.silent().constructor) {
+    return 'silent'
+  }
+  return 'normal'
+}
+
+/**
+ * Collects the output written by a command using the UI primitives
+ * in memory and returns a function to restore the UI and emit the
+ * JSON document with the collected logs.
+ *
+ * The prompts fail right away, since the output of an interactive
+ * prompt cannot be part of the JSON document.
+ */
+function collectOutputAsJSON(command: BaseCommand) {
+  const ui = command.ui
+  const mode = getUIMode(ui)
+  const renderer = ui.logger.getRenderer()
+  const colors = ui.colors
+  const prompt = Object.getOwnPropertyDescriptor(command.prompt, 'prompt')
+
+  Object.assign(command.prompt, {
+    prompt: async () => {
+      throw new RuntimeException(
+        `Cannot display prompts when running "${command.commandName}" command in JSON output mode`
+      )
+    },
+  })
+
+  /**
+   * The raw mode collects the logs in memory. However, we use the
+   * silent mode colors to get plain text messages
+   */
+  ui.switchMode('silent')
+  const silentColors = ui.colors
+  ui.switchMode('raw')
+  ui.useColors(silentColors)
+  const memoryRenderer = ui.logger.getRenderer()
+
+  return (error?: any) => {
+    prompt
+      ? Object.defineProperty(command.prompt, 'prompt', prompt)
+      : Reflect.deleteProperty(command.prompt, 'prompt')
+    ui.switchMode(mode)
+    ui.useColors(colors)
+    ui.useRenderer(renderer)
+
+    const output: CommandJSONOutput = {
+      command: command.commandName,
+      exitCode: command.exitCode ?? 0,
+      result: command.result ?? null,
+      error: error
+        ? { name: error.name, code: error.code, message: error.message ?? String(error) }
+        : null,
+      logs: memoryRenderer.getLogs(),
+    }
+
+    renderer.log(JSON.stringify(output))
+  }
+}
+
+/**
+ * Acquires the lock for a command using the "lock" command option.
+ * Returns undefined when the command does not use a lock
+ */
+async function acquireCommandLock(command: BaseCommand) {
+  const options = (command.constructor as typeof BaseCommand).options.lock
+  if (!options) {
+    return
+  }
+
+  const { name = command.commandName, ttl = '1h', wait = false } = options === true ? {} : options
+  const ttlInMs = string.milliseconds.parse(ttl)
+  const fileName = `${name.replace(/[^\w-]+/g, '_')}.lock`
+  const lock = new CommandLock(command.app.tmpPath('locks', fileName), { ttl: ttlInMs })
+
+  if (wait === false) {
+    await lock.acquire()
+  } else {
+    await lock.waitAndAcquire(wait === true ? ttlInMs : string.milliseconds.parse(wait))
+  }
+
+  return { name, lock }
+}
+
+/**
+ * Returns the name of the OS user running the process
+ */
+function getUsername() {
+  try {
+    return userInfo().username
+  } catch {
+    return process.env.USER || process.env.USERNAME || 'unknown'
+  }
+}
+
+/**
+ * Normalizes the NODE_ENV value the same way as the application,
+ * so that the shorthand values like "prod" are matched
+ */
+function normalizeNodeEnvironment(environment?: string) {
+  if (!environment) {
+    return 'unknown'
+  }
+
+  environment = environment.toLowerCase()
+  if (['dev', 'develop', 'development'].includes(environment)) {
+    return 'development'
+  }
+  if (['prod', 'production'].includes(environment)) {
+    return 'production'
+  }
+  if (['test', 'testing'].includes(environment)) {
+    return 'test'
+  }
+  return environment
+}
+
+/**
+ * Returns the node environment of the app. The NODE_ENV is processed
+ * by the app during boot, hence for the commands not booting the
+ * app, we read it from the process env and the ".env" files
+ */
+async function getNodeEnvironment(app: ApplicationService) {
+  if (app.isBooted) {
+    return app.nodeEnvironment
+  }
+
+  if (process.env.NODE_ENV) {
+    return normalizeNodeEnvironment(process.env.NODE_ENV)
+  }
+
+  /**
+   * The env files are sorted by their priority. Hence, the first
+   * file defining the NODE_ENV wins
+   */
+  const envFiles = await new EnvLoader(app.appRoot).load()
+  for (const { contents } of envFiles) {
+    const values = await new EnvParser(contents, { ignoreProcessEnv: true }).parse()
+    if (values.NODE_ENV) {
+      return normalizeNodeEnvironment(values.NODE_ENV)
+    }
+  }
+
+  return 'unknown'
+}
+
+/**
+ * Verifies the command is allowed to run in the current environment
+ * using the "environments" and the "dangerous" command options.
+ * Dangerous commands must be confirmed or forced using the
+ * "--allow-dangerous" flag in production.
+ */
+async function isCommandAllowed(command: BaseCommand, parsed: ParsedOutput) {
+  const { environments } = (command.constructor as typeof BaseCommand).options
+  if (!environments && !command.dangerous) {
+    return true
+  }
+
+  const app = command.app
+  const nodeEnvironment = await getNodeEnvironment(app)
+
+  if (environments && !environments.includes(nodeEnvironment)) {
+    command.logger.error(
+      `The "${command.commandName}" command cannot run in "${nodeEnvironment}" environment`
+    )
+    return false
+  }
+
+  if (!command.dangerous || nodeEnvironment !== 'production') {
+    return true
+  }
+
+  const forced = parsed.flags['allow-dangerous'] === true
+  if (!forced) {
+    const confirmed = await command.prompt.confirm(
+      `You are about to run "${command.commandName}" command in production. Do you want to continue?`,
+      { name: 'confirmDangerousCommand' }
+    )
+
+    if (!confirmed) {
+      command.logger.error(`Cancelled running "${command.commandName}" command`)
+      return false
+    }
+  }
+
+  /**
+   * Keeping an audit trail of the dangerous commands executed
+   * in production
+   */
+  if (app.container.hasBinding('logger')) {
+    const logger = await app.container.make('logger')
+    logger.warn(
+      {
+        command: command.commandName,
+        args: parsed.args,
+        flags: parsed.flags,
+        user: getUsername(),
+        forced,
+      },
+      'running dangerous command "%s"',
+      command.commandName
+    )
+  }
+
+  return true
+}
 
 /**
  * The base command to create custom ace commands. The AdonisJS base commands
@@ -28,6 +264,29 @@ export class BaseCommand extends AceBaseCommand {
     return (this.constructor as typeof BaseCommand).options.startApp
   }
 
+  /**
+   * Find if the command is dangerous. Defaults to the "dangerous"
+   * option and can be overridden by the commands that are
+   * dangerous only for some flags.
+   */
+  get dangerous() {
+    return !!(this.constructor as typeof BaseCommand).options.dangerous
+  }
+
+  /**
+   * Find if the command emits its output as a JSON document. The
+   * mode is enabled for the main command using the global "--json"
+   * flag, unless the command defines a "json" flag of its own.
+   */
+  get jsonMode() {
+    const flags = (this.constructor as typeof BaseCommand).flags
+    return (
+      this.parsed?.flags.json === true &&
+      this.kernel.getMainCommand() === this &&
+      !flags.some((flag) => flag.name === 'json')
+    )
+  }
+
   constructor(
     public app: ApplicationService,
     public kernel: Kernel,
@@ -42,12 +301,26 @@ export class BaseCommand extends AceBaseCommand {
    * Creates the codemods module to modify source files
    */
   async createCodemods() {
+    const existingCodemods = dryRunCodemods.get(this)
+    if (existingCodemods) {
+      return existingCodemods
+    }
+
     const { Codemods } = await import('./codemods.js')
     const codemods = new Codemods(this.app, this.logger)
     codemods.on('error', () => {
       this.exitCode = 1
     })
 
+    /**
+     * Commands accepting the "--dry-run" flag collect the changes
+     * instead of writing them to the disk
+     */
+    if (this.parsed?.flags['dry-run'] === true) {
+      codemods.dryRun = true
+      dryRunCodemods.set(this, codemods)
+    }
+
     return codemods
   }
 
@@ -80,32 +353,83 @@ export class BaseCommand extends AceBaseCommand {
    */
   async exec() {
     this.hydrate()
+    const emitJSON = this.jsonMode ? collectOutputAsJSON(this) : undefined
+    let commandLock: Awaited<ReturnType<typeof acquireCommandLock>>
 
     try {
       /**
-       * Executing the template methods
+       * Executing the template methods, unless the command is not
+       * allowed to run in the current environment
        */
-      this.prepare && (await this.app.container.call<any, 'prepare'>(this, 'prepare'))
-      this.interact && (await this.app.container.call<any, 'interact'>(this, 'interact'))
-      const result = await this.app.container.call<BaseCommand, 'run'>(this, 'run')
+      const isAllowed = await isCommandAllowed(this, this.parsed)
+      if (isAllowed) {
+        this.prepare && (await this.app.container.call<any, 'prepare'>(this, 'prepare'))
+        this.interact && (await this.app.container.call<any, 'interact'>(this, 'interact'))
+        commandLock = await acquireCommandLock(this)
+      }
 
       /**
-       * Set exit code
+       * Skip running the command when it is not allowed or the
+       * lock is held by another process
        */
-      this.result = this.result === undefined ? result : this.result
-      this.exitCode = this.exitCode ?? 0
+      if (!isAllowed) {
+        this.exitCode = 1
+      } else if (commandLock && !commandLock.lock.isAcquired) {
+        this.logger.warning(
+          `Skipping "${this.commandName}" command. The "${commandLock.name}" lock is held by another process`
+        )
+        this.exitCode = this.exitCode ?? 0
+      } else {
+        const result = await this.app.container.call<BaseCommand, 'run'>(this, 'run')
+
+        /**
+         * Set exit code
+         */
+        this.result = this.result === undefined ? result : this.result
+        this.exitCode = this.exitCode ?? 0
+      }
     } catch (error) {
       this.error = error
       this.exitCode = this.exitCode ?? 1
     }
 
+    /**
+     * Display the changes collected in dry-run mode
+     */
+    dryRunCodemods.get(this)?.printDiff()
+
     /**
      * Run the completed method (if exists) and check if has handled
-     * the error
+     * the error.
+     *
+     * The lock is released after the completed method has finished.
+     * The commands that stay alive release the lock when the app
+     * terminates.
      */
-    let errorHandled = this.completed
-      ? await this.app.container.call<any, 'completed'>(this, 'completed')
-      : false
+    let errorHandled: boolean
+    try {
+      errorHandled = this.completed
+        ? await this.app.container.call<any, 'completed'>(this, 'completed')
+        : false
+    } finally {
+      if (commandLock?.lock.isAcquired) {
+        const { lock } = commandLock
+        if (this.staysAlive && !this.error) {
+          this.app.terminating(() => lock.release())
+        } else {
+          await lock.release()
+        }
+      }
+    }
+
+    /**
+     * In JSON mode, the unhandled error is reported as part of
+     * the JSON document
+     */
+    if (emitJSON) {
+      emitJSON(errorHandled ? undefined : this.error)
+      return this.result
+    }
 
     if (this.error && !errorHandled) {
       await this.kernel.errorHandler.render(this.error, this.kernel)
@@ -121,7 +445,7 @@ export class BaseCommand extends AceBaseCommand {
    * of the process.
    */
   async terminate() {
-    if (this.kernel.getMainCommand() === this) {
+    if (this.kernel.ownsApp && this.kernel.getMainCommand() === this) {
       await this.app.terminate()
     }
   }
@@ -141,6 +465,14 @@ export class ListCommand extends AceListCommand implements BaseCommand {
     return (this.constructor as typeof BaseCommand).options.startApp
   }
 
+  get dangerous() {
+    return false
+  }
+
+  get jsonMode() {
+    return false
+  }
+
   constructor(
     public app: ApplicationService,
     public kernel: Kernel,
@@ -166,7 +498,7 @@ export class ListCommand extends AceListCommand implements BaseCommand {
    * of the process.
    */
   async terminate() {
-    if (this.kernel.getMainCommand() === this) {
+    if (this.kernel.ownsApp && this.kernel.getMainCommand() === this) {
       await this.app.terminate()
     }
   }
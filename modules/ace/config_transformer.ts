@@ -0,0 +1,263 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { fileURLToPath } from 'node:url'
+import {
+  quote,
+  type SourceFile,
+  type TsMorphNode,
+  type TsMorphProject,
+} from './transformer_utils.js'
+
+/**
+ * The subset of the ts-morph CallExpression API used by
+ * the transformer
+ */
+type CallNode = TsMorphNode & {
+  getArguments(): TsMorphNode[]
+}
+
+/**
+ * The subset of the ts-morph ObjectLiteralExpression API used
+ * by the transformer
+ */
+type ObjectLiteralNode = TsMorphNode & {
+  getProperties(): TsMorphNode[]
+}
+
+/**
+ * The subset of the ts-morph PropertyAssignment API used by
+ * the transformer
+ */
+type PropertyNode = TsMorphNode & {
+  getName(): string
+  getInitializer(): TsMorphNode | undefined
+  setInitializer(initializer: string): PropertyNode
+}
+
+/**
+ * Transforms the object literal passed to the "defineConfig" call
+ * of a config file. The rest of the file is left untouched.
+ */
+export class ConfigTransformer {
+  #cwd: URL
+  #project: TsMorphProject
+
+  constructor(cwd: URL, project: TsMorphProject) {
+    this.#cwd = cwd
+    this.#project = project
+  }
+
+  /**
+   * Get the config source file
+   */
+  #getConfigFileOrThrow(configPath: string) {
+    const filePath = fileURLToPath(new URL(configPath, this.#cwd))
+    return this.#project.getSourceFile(filePath) || this.#project.addSourceFileAtPath(filePath)
+  }
+
+  /**
+   * Returns the object literal passed to the "defineConfig" call
+   */
+  #getConfigObjectOrThrow(configPath: string) {
+    const file = this.#getConfigFileOrThrow(configPath)
+    const defineConfigCall = file.getDescendants().find((node) => {
+      return (
+        node.getKindName() === 'CallExpression' &&
+        node.getFirstChild()?.getText() === 'defineConfig'
+      )
+    })
+
+    const configObject = (defineConfigCall as CallNode | undefined)
+      ?.getArguments()
+      .find((node) => node.getKindName() === 'ObjectLiteralExpression')
+
+    if (!configObject) {
+      throw new Error(`Cannot find the object passed to "defineConfig" in "${configPath}" file`)
+    }
+
+    return { file, configObject: configObject as ObjectLiteralNode }
+  }
+
+  /**
+   * Finds a property of an object literal by its name
+   */
+  #findProperty(objectNode: ObjectLiteralNode, name: string) {
+    return objectNode.getProperties().find((property) => {
+      const propertyName = (property as PropertyNode).getName?.()
+      return propertyName !== undefined && propertyName.replace(/^(['"`])(.*)\1$/, '$2') === name
+    }) as PropertyNode | undefined
+  }
+
+  /**
+   * Returns the property name to write in the source
+   */
+  #propertyName(name: string) {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name)
+  }
+
+  /**
+   * Returns the indentation of the line on which the node starts,
+   * as written in the source file
+   */
+  #getIndentation(node: TsMorphNode) {
+    const text = node.getSourceFile().getFullText()
+    const lineStart = text.lastIndexOf('\n', node.getStart() - 1) + 1
+    return text.slice(lineStart).match(/^[ \t]*/)![0]
+  }
+
+  /**
+   * Returns the code for a property. The remaining segments of
+   * the path are defined as nested objects. An empty indentation
+   * renders the nested objects on a single line
+   */
+  #renderProperty(
+    segments: string[],
+    valueExpression: string,
+    indent: string,
+    style: { indentUnit: string; trailingComma: boolean }
+  ): string {
+    const [name, ...rest] = segments
+    const property = `${indent}${this.#propertyName(name)}: `
+    if (!rest.length) {
+      return `${property}${valueExpression}`
+    }
+
+    if (!indent) {
+      return `${property}{ ${this.#renderProperty(rest, valueExpression, '', style)} }`
+    }
+
+    const child = this.#renderProperty(rest, valueExpression, indent + style.indentUnit, style)
+    return `${property}{\n${child}${style.trailingComma ? ',' : ''}\n${indent}}`
+  }
+
+  /**
+   * Adds the property at the end of the object literal, using
+   * the indentation and the trailing commas of the existing
+   * properties
+   */
+  #addProperty(
+    file: SourceFile,
+    objectNode: ObjectLiteralNode,
+    segments: string[],
+    valueExpression: string,
+    indentUnit: string
+  ) {
+    const properties = objectNode.getProperties()
+    const lastProperty = properties[properties.length - 1]
+    const objectIndent = this.#getIndentation(objectNode)
+
+    /**
+     * Empty objects are re-written as multiline objects
+     */
+    if (!lastProperty) {
+      const style = { indentUnit, trailingComma: true }
+      const property = this.#renderProperty(
+        segments,
+        valueExpression,
+        objectIndent + indentUnit,
+        style
+      )
+      file.replaceText(
+        [objectNode.getStart(), objectNode.getEnd()],
+        `{\n${property},\n${objectIndent}}`
+      )
+      return
+    }
+
+    const comma = lastProperty.getNextSibling()
+    const hasTrailingComma = comma?.getKindName() === 'CommaToken'
+    const insertPosition = hasTrailingComma ? comma!.getEnd() : lastProperty.getEnd()
+
+    if (objectNode.getStartLineNumber() === objectNode.getEndLineNumber()) {
+      const style = { indentUnit: '', trailingComma: false }
+      const property = this.#renderProperty(segments, valueExpression, '', style)
+      file.insertText(insertPosition, `${hasTrailingComma ? '' : ','} ${property}`)
+      return
+    }
+
+    const style = { indentUnit, trailingComma: hasTrailingComma }
+    const indent = this.#getIndentation(lastProperty)
+    const property = this.#renderProperty(segments, valueExpression, indent, style)
+    file.insertText(
+      insertPosition,
+      `${hasTrailingComma ? '' : ','}\n${property}${hasTrailingComma ? ',' : ''}`
+    )
+  }
+
+  /**
+   * Returns the indentation used by the properties of the
+   * config object
+   */
+  #getIndentUnit(configObject: ObjectLiteralNode) {
+    const [firstProperty] = configObject.getProperties()
+    if (
+      !firstProperty ||
+      firstProperty.getStartLineNumber() === configObject.getStartLineNumber()
+    ) {
+      return '  '
+    }
+
+    return (
+      this.#getIndentation(firstProperty).slice(this.#getIndentation(configObject).length) || '  '
+    )
+  }
+
+  /**
+   * Defines the value for the property at the given path. The
+   * missing objects along the path are created. Returns false
+   * when the property exists and "overwrite" is disabled
+   */
+  async update(
+    configPath: string,
+    propertyPath: string | string[],
+    valueExpression: string,
+    options: { overwrite?: boolean } = {}
+  ) {
+    const segments = typeof propertyPath === 'string' ? propertyPath.split('.') : propertyPath
+    const { file, configObject } = this.#getConfigObjectOrThrow(configPath)
+    const indentUnit = this.#getIndentUnit(configObject)
+
+    let objectNode = configObject
+    for (const [index, segment] of segments.entries()) {
+      const property = this.#findProperty(objectNode, segment)
+      if (!property) {
+        this.#addProperty(file, objectNode, segments.slice(index), valueExpression, indentUnit)
+        break
+      }
+
+      if (index === segments.length - 1) {
+        if (!options.overwrite) {
+          return false
+        }
+
+        if (property.getKindName() !== 'PropertyAssignment') {
+          property.replaceWithText(`${this.#propertyName(segment)}: ${valueExpression}`)
+        } else {
+          property.setInitializer(valueExpression)
+        }
+        break
+      }
+
+      const initializer =
+        property.getKindName() === 'PropertyAssignment' ? property.getInitializer() : undefined
+
+      if (initializer?.getKindName() !== 'ObjectLiteralExpression') {
+        throw new Error(
+          `Cannot update "${segments.join('.')}" in "${configPath}" file. The "${segments.slice(0, index + 1).join('.')}" property is not an object literal`
+        )
+      }
+
+      objectNode = initializer as ObjectLiteralNode
+    }
+
+    await file.save()
+    return true
+  }
+}
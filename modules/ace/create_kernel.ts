@@ -61,6 +61,16 @@ export function createAceKernel(app: ApplicationService, commandName?: string) {
     description: 'Force enable or disable colorful output',
   })
 
+  kernel.defineFlag('json', {
+    type: 'boolean',
+    description: 'Output the logs, the errors and the result of the command as JSON',
+  })
+
+  kernel.defineFlag('allow-dangerous', {
+    type: 'boolean',
+    description: 'Run the dangerous commands in production without confirmation',
+  })
+
   kernel.defineFlag('help', {
     type: 'boolean',
     description: HelpCommand.description,
@@ -0,0 +1,274 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { chmod, lstat, mkdir, rm } from 'node:fs/promises'
+import { createInterface } from 'node:readline'
+import { ExceptionHandler } from '@adonisjs/ace'
+import { createServer, type Server, type Socket } from 'node:net'
+
+import type { Kernel } from './kernel.js'
+import debug from '../../src/debug.js'
+import type { ApplicationService } from '../../src/types.js'
+import { RuntimeException } from '../../src/exceptions.js'
+import { AceDaemonClient, getDaemonSocketPath, getDaemonSocketsDir } from './daemon_client.js'
+import type { AceDaemonMessage, AceDaemonRequest } from '../../types/ace.js'
+
+/**
+ * The ace daemon keeps the application booted and runs the commands
+ * received over a local IPC socket. Every command is executed using
+ * a fresh kernel and its output is streamed back to the client.
+ *
+ * The commands are executed one after the other, since they share
+ * the same application instance. The socket is only accessible by
+ * the user who started the daemon.
+ */
+export class AceDaemon {
+  /**
+   * Path of the IPC socket
+   */
+  #socketPath: string
+
+  /**
+   * Creates a fresh kernel for every command
+   */
+  #createKernel: (commandName?: string) => Promise<Kernel>
+
+  /**
+   * Reference to the underlying server, once started
+   */
+  #server?: Server
+
+  /**
+   * Promise chain used to run the commands in sequence
+   */
+  #queue: Promise<void> = Promise.resolve()
+
+  constructor(app: ApplicationService, createKernel: (commandName?: string) => Promise<Kernel>) {
+    this.#socketPath = getDaemonSocketPath(app.appRoot)
+    this.#createKernel = createKernel
+  }
+
+  /**
+   * Path of the IPC socket the daemon listens on
+   */
+  get socketPath() {
+    return this.#socketPath
+  }
+
+  /**
+   * Find if the daemon is accepting connections
+   */
+  get isListening() {
+    return !!this.#server?.listening
+  }
+
+  /**
+   * Uses the working directory and the environment variables of the
+   * client process and returns a function to restore the daemon's
+   * own state
+   */
+  #useClientProcess(request: AceDaemonRequest) {
+    const cwd = process.cwd()
+    const env = { ...process.env }
+
+    const replaceEnv = (values: NodeJS.ProcessEnv) => {
+      Object.keys(process.env).forEach((key) => delete process.env[key])
+      Object.assign(process.env, values)
+    }
+
+    process.chdir(request.cwd)
+    replaceEnv(request.env)
+
+    return () => {
+      process.chdir(cwd)
+      replaceEnv(env)
+    }
+  }
+
+  /**
+   * Creates the directory for the socket, making sure it is only
+   * accessible by the current user
+   */
+  async #createSocketsDir() {
+    const socketsDir = getDaemonSocketsDir()
+    await mkdir(socketsDir, { recursive: true, mode: 0o700 })
+
+    const stats = await lstat(socketsDir)
+    if (!stats.isDirectory() || stats.uid !== process.getuid?.() || (stats.mode & 0o077) !== 0) {
+      throw new RuntimeException(
+        `Cannot start ace daemon. The "${socketsDir}" directory must be owned by the current user and inaccessible to other users`
+      )
+    }
+  }
+
+  /**
+   * Runs the command for the given request and streams the output
+   * to the socket
+   */
+  async #run(socket: Socket, line: string) {
+    const send = (message: AceDaemonMessage) => {
+      if (!socket.destroyed) {
+        socket.write(`${JSON.stringify(message)}\n`)
+      }
+    }
+
+    try {
+      const request: AceDaemonRequest = JSON.parse(line)
+      const commandName = request.argv.find((value) => !value.startsWith('-'))
+      debug('ace daemon running command %O', request.argv)
+
+      const kernel = await this.#createKernel(commandName)
+      kernel.ownsApp = false
+      await kernel.boot()
+
+      /**
+       * The command palette and the long running commands (including
+       * the daemon itself) must run in the client process
+       */
+      const command = commandName
+        ? kernel.getCommand(commandName) || kernel.getAliasCommand(commandName)
+        : undefined
+      if (!request.argv.length || command?.options.staysAlive) {
+        send({ type: 'fallback' })
+        return
+      }
+
+      /**
+       * Stream the output to the client. The "logUpdate" messages
+       * are sent once persisted, since the client cannot
+       * overwrite the existing lines.
+       */
+      let pendingUpdate: string | undefined
+      const renderer = {
+        getLogs: () => [],
+        flushLogs() {},
+        log: (message: string) => send({ type: 'output', stream: 'stdout', message }),
+        logError: (message: string) => send({ type: 'output', stream: 'stderr', message }),
+        logUpdate: (message: string) => {
+          pendingUpdate = message
+        },
+        logUpdatePersist: () => {
+          if (pendingUpdate !== undefined) {
+            send({ type: 'output', stream: 'stdout', message: pendingUpdate })
+            pendingUpdate = undefined
+          }
+        },
+      }
+
+      kernel.ui.switchMode(request.colors ? 'normal' : 'silent')
+      kernel.ui.useRenderer(renderer)
+
+      /**
+       * Flag listeners (like "--ansi") switch the UI mode and hence
+       * the renderer. Therefore, we use the renderer again before
+       * running the command
+       */
+      kernel.executing(() => kernel.ui.useRenderer(renderer))
+
+      /**
+       * Pretty printed errors are written to the stdout of the
+       * daemon. Hence, we render them using the UI logger
+       */
+      if (kernel.errorHandler instanceof ExceptionHandler) {
+        kernel.errorHandler.debug = false
+      }
+
+      /**
+       * The daemon cannot display prompts, since the terminal
+       * belongs to the client process
+       */
+      Object.assign(kernel.prompt, {
+        prompt: async () => {
+          throw new RuntimeException(
+            'Cannot display prompts when running commands through the ace daemon. Stop the daemon to run interactive commands'
+          )
+        },
+      })
+
+      const restoreProcess = this.#useClientProcess(request)
+      try {
+        await kernel.handle(request.argv)
+      } finally {
+        restoreProcess()
+      }
+
+      renderer.logUpdatePersist()
+      send({ type: 'exit', exitCode: kernel.exitCode ?? 0 })
+    } catch (error) {
+      debug('ace daemon failed to run command %O', error)
+      send({ type: 'output', stream: 'stderr', message: error.message ?? String(error) })
+      send({ type: 'exit', exitCode: 1 })
+    } finally {
+      socket.end()
+    }
+  }
+
+  /**
+   * Reads the request from the socket and queues the command
+   */
+  #onConnection(socket: Socket) {
+    socket.on('error', (error) => debug('ace daemon connection error %O', error))
+
+    const lines = createInterface({ input: socket })
+    lines.once('line', (line) => {
+      lines.close()
+      this.#queue = this.#queue.then(() => this.#run(socket, line))
+    })
+  }
+
+  /**
+   * Starts the daemon. An exception is raised when another daemon
+   * is running for the same application
+   */
+  async start() {
+    if (await new AceDaemonClient(this.#socketPath).isRunning()) {
+      throw new RuntimeException(`Ace daemon is already running on "${this.#socketPath}"`)
+    }
+
+    /**
+     * Remove the socket file left behind by a daemon that
+     * was not stopped gracefully
+     */
+    if (process.platform !== 'win32') {
+      await this.#createSocketsDir()
+      await rm(this.#socketPath, { force: true })
+    }
+
+    const server = createServer((socket) => this.#onConnection(socket))
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(this.#socketPath, () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+
+    if (process.platform !== 'win32') {
+      await chmod(this.#socketPath, 0o600)
+    }
+
+    this.#server = server
+    debug('ace daemon listening on "%s"', this.#socketPath)
+  }
+
+  /**
+   * Stops the daemon after the running commands are finished
+   */
+  async stop() {
+    const server = this.#server
+    if (!server) {
+      return
+    }
+
+    this.#server = undefined
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+    await this.#queue
+    debug('ace daemon stopped')
+  }
+}
@@ -0,0 +1,150 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { createHash } from 'node:crypto'
+import { fileURLToPath } from 'node:url'
+import { connect, type Socket } from 'node:net'
+import { createInterface } from 'node:readline'
+
+import debug from '../../src/debug.js'
+import type { AceDaemonMessage, AceDaemonRequest } from '../../types/ace.js'
+
+/**
+ * Returns the directory holding the IPC sockets of the ace daemons
+ * started by the current user. The directory is only accessible
+ * by its owner.
+ */
+export function getDaemonSocketsDir() {
+  return join(tmpdir(), `adonisjs-ace-${process.getuid?.() ?? 'user'}`)
+}
+
+/**
+ * Returns the path of the IPC socket used by the ace daemon of
+ * an application. Named pipes are used on Windows.
+ */
+export function getDaemonSocketPath(appRoot: URL) {
+  const id = createHash('sha1').update(fileURLToPath(appRoot)).digest('hex').slice(0, 12)
+  return process.platform === 'win32'
+    ? `\\\\.\\pipe\\adonisjs-ace-${id}`
+    : join(getDaemonSocketsDir(), `${id}.sock`)
+}
+
+/**
+ * The daemon client runs commands through the ace daemon and
+ * streams the output of the commands to the current process
+ */
+export class AceDaemonClient {
+  #socketPath: string
+  #stdout: NodeJS.WritableStream
+  #stderr: NodeJS.WritableStream
+
+  constructor(
+    socketPath: string,
+    options: { stdout?: NodeJS.WritableStream; stderr?: NodeJS.WritableStream } = {}
+  ) {
+    this.#socketPath = socketPath
+    this.#stdout = options.stdout || process.stdout
+    this.#stderr = options.stderr || process.stderr
+  }
+
+  /**
+   * Connects with the daemon. Resolves to undefined when the
+   * daemon is not running
+   */
+  #connect(): Promise<Socket | undefined> {
+    return new Promise((resolve) => {
+      const socket = connect(this.#socketPath)
+      socket.once('connect', () => {
+        socket.removeAllListeners('error')
+        resolve(socket)
+      })
+      socket.once('error', (error: NodeJS.ErrnoException) => {
+        debug('ace daemon is not reachable, reason: %s', error.code || error.message)
+        resolve(undefined)
+      })
+    })
+  }
+
+  /**
+   * Find if the output of the current process can be colorized
+   */
+  #supportsColors() {
+    const stdout = this.#stdout as NodeJS.WriteStream
+    return typeof stdout.hasColors === 'function' && stdout.hasColors()
+  }
+
+  /**
+   * Find if the daemon is running
+   */
+  async isRunning() {
+    const socket = await this.#connect()
+    socket?.destroy()
+    return !!socket
+  }
+
+  /**
+   * Runs the command through the daemon and returns its exit code.
+   * Returns undefined when the daemon is not running or cannot run
+   * the command. In that case, the command must be executed in
+   * the current process.
+   */
+  async run(argv: string[]): Promise<number | undefined> {
+    const socket = await this.#connect()
+    if (!socket) {
+      return
+    }
+
+    debug('running command through ace daemon %O', argv)
+    const request: AceDaemonRequest = {
+      argv,
+      cwd: process.cwd(),
+      env: process.env,
+      colors: this.#supportsColors(),
+    }
+    socket.write(`${JSON.stringify(request)}\n`)
+
+    return new Promise((resolve) => {
+      let exitCode: number | undefined
+      let fallback = false
+
+      socket.on('error', (error) => {
+        debug('ace daemon connection error %O', error)
+      })
+
+      createInterface({ input: socket }).on('line', (line) => {
+        const message: AceDaemonMessage = JSON.parse(line)
+        if (message.type === 'output') {
+          const stream = message.stream === 'stderr' ? this.#stderr : this.#stdout
+          stream.write(`${message.message}\n`)
+        } else if (message.type === 'exit') {
+          exitCode = message.exitCode
+        } else {
+          fallback = true
+        }
+      })
+
+      socket.on('close', () => {
+        if (fallback) {
+          resolve(undefined)
+          return
+        }
+
+        if (exitCode === undefined) {
+          this.#stderr.write('Lost connection with the ace daemon before the command finished\n')
+          resolve(1)
+          return
+        }
+
+        resolve(exitCode)
+      })
+    })
+  }
+}
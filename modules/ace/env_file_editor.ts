@@ -0,0 +1,183 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+/**
+ * Edits the contents of a dot-env file line by line. The existing
+ * variables are updated in place and the new variables are added
+ * at the end of the file or at the end of their group.
+ */
+export class EnvFileEditor {
+  #lines: string[]
+  #hasTrailingNewLine: boolean
+
+  constructor(contents: string) {
+    const lines = contents.split(/\r?\n/)
+    this.#hasTrailingNewLine = !contents || lines[lines.length - 1] === ''
+    if (lines[lines.length - 1] === '') {
+      lines.pop()
+    }
+
+    this.#lines = lines
+  }
+
+  /**
+   * Returns the name of the variable defined by the line
+   */
+  #getVariableName(line: string) {
+    const trimmedLine = line.trim()
+    if (!trimmedLine || trimmedLine.startsWith('#') || !trimmedLine.includes('=')) {
+      return null
+    }
+
+    return trimmedLine
+      .replace(/^export\s+/, '')
+      .split('=')[0]
+      .trim()
+  }
+
+  /**
+   * Find the index of the line defining the variable
+   */
+  #findVariable(key: string) {
+    return this.#lines.findIndex((line) => this.#getVariableName(line) === key)
+  }
+
+  /**
+   * Converts text to comment lines
+   */
+  #toComment(text: string) {
+    return text.split('\n').map((line) => `# ${line}`.trimEnd())
+  }
+
+  /**
+   * Find the index of the first line of the comment block
+   */
+  #findComment(comment: string[]) {
+    return this.#lines.findIndex((_, index) => {
+      return comment.every((line, offset) => this.#lines[index + offset] === line)
+    })
+  }
+
+  /**
+   * Returns the index after the last line of the group starting
+   * at the given index. Groups are separated by blank lines
+   */
+  #findGroupEnd(index: number) {
+    while (index < this.#lines.length && this.#lines[index].trim() !== '') {
+      index++
+    }
+    return index
+  }
+
+  /**
+   * Define variables inside the file. The existing variables are
+   * updated in place, whereas the new variables are added along
+   * with their comments.
+   *
+   * The new variables are grouped under the "comment" heading,
+   * when defined. The heading is created when missing.
+   */
+  define(
+    variables: Record<string, string | number | boolean>,
+    options: {
+      comment?: string
+      comments?: Record<string, string | undefined>
+      withEmptyValues?: string[]
+    } = {}
+  ) {
+    const newLines: string[] = []
+
+    for (const [key, value] of Object.entries(variables)) {
+      const line = `${key}=${options.withEmptyValues?.includes(key) ? '' : value}`
+      const index = this.#findVariable(key)
+
+      if (index !== -1) {
+        const exportPrefix = this.#lines[index].match(/^\s*(export\s+)?/)![0]
+        this.#lines[index] = `${exportPrefix}${line}`
+        continue
+      }
+
+      const comment = options.comments?.[key]
+      if (comment) {
+        newLines.push(...this.#toComment(comment))
+      }
+      newLines.push(line)
+    }
+
+    if (!newLines.length) {
+      return this
+    }
+
+    if (options.comment) {
+      const heading = this.#toComment(options.comment)
+      const headingIndex = this.#findComment(heading)
+
+      if (headingIndex !== -1) {
+        this.#lines.splice(this.#findGroupEnd(headingIndex + heading.length), 0, ...newLines)
+        return this
+      }
+
+      newLines.unshift(...heading)
+      if (this.#lines.length && this.#lines[this.#lines.length - 1].trim() !== '') {
+        newLines.unshift('')
+      }
+    }
+
+    this.#lines.push(...newLines)
+    return this
+  }
+
+  /**
+   * Removes the variables from the file. The comments written
+   * above the removed variables are removed as well, when no
+   * other variable follows them
+   */
+  remove(keys: string[]) {
+    const lines: string[] = []
+    const comments: number[] = []
+
+    for (const line of this.#lines) {
+      if (!keys.includes(this.#getVariableName(line)!)) {
+        lines.push(line)
+      } else if (
+        lines[lines.length - 1]?.trim().startsWith('#') &&
+        comments[0] !== lines.length - 1
+      ) {
+        comments.unshift(lines.length - 1)
+      }
+    }
+
+    for (const commentEnd of comments) {
+      const nextLine = lines[commentEnd + 1]
+      if (nextLine !== undefined && nextLine.trim() !== '') {
+        continue
+      }
+
+      let start = commentEnd
+      while (start > 0 && lines[start - 1].trim().startsWith('#')) {
+        start--
+      }
+      if (start > 0 && lines[start - 1].trim() === '') {
+        start--
+      }
+      lines.splice(start, commentEnd - start + 1)
+    }
+
+    this.#lines = lines
+    return this
+  }
+
+  /**
+   * Returns the file contents
+   */
+  toString() {
+    const contents = this.#lines.join('\n')
+    return this.#hasTrailingNewLine && contents ? `${contents}\n` : contents
+  }
+}
@@ -0,0 +1,90 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { existsSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import type { EventListenerNode } from '../../types/ace.js'
+import {
+  quote,
+  normalizeCode,
+  editorSettings,
+  addAfterImports,
+  addDefaultImport,
+  type TsMorphProject,
+} from './transformer_utils.js'
+
+/**
+ * Transforms the "start/events.ts" preload file to register event
+ * listeners. The file is created when missing.
+ */
+export class EventsTransformer {
+  #project: TsMorphProject
+
+  /**
+   * Absolute path to the events preload file
+   */
+  filePath: string
+
+  constructor(cwd: URL, project: TsMorphProject) {
+    this.filePath = fileURLToPath(new URL('./start/events.ts', cwd))
+    this.#project = project
+  }
+
+  /**
+   * Find if the events preload file exists
+   */
+  hasEventsFile() {
+    return !!this.#project.getSourceFile(this.filePath) || existsSync(this.filePath)
+  }
+
+  /**
+   * Get the events preload file or create a new one
+   */
+  #getEventsFile() {
+    return (
+      this.#project.getSourceFile(this.filePath) ||
+      (existsSync(this.filePath)
+        ? this.#project.addSourceFileAtPath(this.filePath)
+        : this.#project.createSourceFile(this.filePath, ''))
+    )
+  }
+
+  /**
+   * Registers the event listeners inside the "start/events.ts" file.
+   * The existing listeners are not registered again
+   */
+  async addListeners(listeners: EventListenerNode[]) {
+    const file = this.#getEventsFile()
+    addDefaultImport(file, 'emitter', '@adonisjs/core/services/emitter')
+
+    for (const { event, listener, method } of listeners) {
+      if (typeof event !== 'string') {
+        addDefaultImport(file, event.name, event.path)
+      }
+
+      if (!file.getVariableStatement(listener.name)) {
+        addAfterImports(file, `const ${listener.name} = () => import(${quote(listener.path)})`)
+      }
+
+      const eventName = typeof event === 'string' ? quote(event) : event.name
+      const handler = method ? `[${listener.name}, ${quote(method)}]` : `[${listener.name}]`
+      const code = `emitter.on(${eventName}, ${handler})`
+
+      const isRegistered = file.getStatements().some((statement) => {
+        return normalizeCode(statement.getText()) === normalizeCode(code)
+      })
+      if (!isRegistered) {
+        file.addStatements(code)
+      }
+    }
+
+    file.formatText(editorSettings)
+    await file.save()
+  }
+}
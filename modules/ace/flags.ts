@@ -0,0 +1,29 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { flags as aceFlags } from '@adonisjs/ace'
+
+/**
+ * Ace flags decorators along with the flags shared by the
+ * AdonisJS commands
+ */
+export const flags = {
+  ...aceFlags,
+
+  /**
+   * Define the "--dry-run" flag. The codemods created by a command
+   * accepting the flag collect the changes and display them as a
+   * diff, instead of writing them to the disk
+   */
+  dryRun() {
+    return aceFlags.boolean({
+      description: 'Preview the changes as a diff without writing them to the disk',
+    })
+  },
+}
@@ -0,0 +1,78 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+/**
+ * Edits the contents of a JSON file. The order of the existing keys,
+ * the indentation and the trailing new line of the file are kept.
+ */
+export class JsonFileEditor {
+  #data: Record<string, any>
+  #indent: string
+  #hasTrailingNewLine: boolean
+
+  /**
+   * Find if the data has been modified
+   */
+  isModified = false
+
+  constructor(contents: string) {
+    this.#data = JSON.parse(contents)
+    this.#indent = contents.match(/^([ \t]+)"/m)?.[1] ?? '  '
+    this.#hasTrailingNewLine = contents.endsWith('\n')
+  }
+
+  /**
+   * Returns the value at the given path
+   */
+  get(path: string[]) {
+    return path.reduce<any>((value, key) => value?.[key], this.#data)
+  }
+
+  /**
+   * Merges the entries inside the object at the given path. The
+   * missing objects are created. Returns the keys of the entries
+   * skipped, since they are defined already with a different
+   * value
+   */
+  merge(path: string[], entries: Record<string, unknown>, overwrite: boolean = false) {
+    let target = this.#data
+    for (const key of path) {
+      if (!target[key]) {
+        target[key] = {}
+        this.isModified = true
+      }
+      target = target[key]
+    }
+
+    const skipped: string[] = []
+    for (const [key, value] of Object.entries(entries)) {
+      if (JSON.stringify(target[key]) === JSON.stringify(value)) {
+        continue
+      }
+
+      if (key in target && !overwrite) {
+        skipped.push([...path, key].join('.'))
+        continue
+      }
+
+      target[key] = value
+      this.isModified = true
+    }
+
+    return skipped
+  }
+
+  /**
+   * Returns the file contents
+   */
+  toString() {
+    const contents = JSON.stringify(this.#data, null, this.#indent)
+    return this.#hasTrailingNewLine ? `${contents}\n` : contents
+  }
+}
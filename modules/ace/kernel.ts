@@ -7,7 +7,7 @@
  * file that was distributed with this source code.
  */
 
-import { Kernel as AceKernel } from '@adonisjs/ace'
+import { BaseKernel } from './base_kernel.js'
 import { BaseCommand, ListCommand } from './commands.js'
 import type { ApplicationService } from '../../src/types.js'
 
@@ -15,7 +15,7 @@ import type { ApplicationService } from '../../src/types.js'
  * The base command to create custom ace commands. The AdonisJS base commands
  * receives the application instance
  */
-export class Kernel extends AceKernel<typeof BaseCommand> {
+export class Kernel extends BaseKernel<typeof BaseCommand> {
   constructor(public app: ApplicationService) {
     super(ListCommand, {
       create: async (command, parsedOutput, $kernel) => {
@@ -25,4 +25,49 @@ export class Kernel extends AceKernel<typeof BaseCommand> {
       run: (command) => command.exec(),
     })
   }
+
+  /**
+   * Display the command palette when running ace without a command.
+   * Enabled for interactive terminals, otherwise the list of
+   * commands is displayed.
+   */
+  interactive: boolean = !!(process.stdin.isTTY && process.stdout.isTTY)
+
+  /**
+   * Find if the main command is in charge of the application and
+   * can terminate it. Disabled by the ace daemon, since the
+   * application is shared by all the commands it runs.
+   */
+  ownsApp: boolean = true
+
+  /**
+   * Handles the command line arguments. The command palette is used to
+   * pick the command, when no arguments are mentioned in interactive
+   * mode.
+   */
+  async handle(argv: string[]) {
+    if (!this.interactive || argv.length) {
+      return super.handle(argv)
+    }
+
+    if (this.getState() === 'idle') {
+      await this.boot()
+    }
+
+    let commandArgv: string[]
+    try {
+      const { CommandPalette } = await import('./command_palette.js')
+      const palette = new CommandPalette(this)
+      commandArgv = await palette.pick()
+      this.ui.logger.info(
+        `You can run the command directly using "${palette.toCLIInvocation(commandArgv)}"`
+      )
+    } catch (error) {
+      this.exitCode = 1
+      await this.errorHandler.render(error, this)
+      return
+    }
+
+    return super.handle(commandArgv)
+  }
 }
@@ -8,10 +8,10 @@
  */
 
 export { Kernel } from './kernel.js'
+export { flags } from './flags.js'
 export { BaseCommand, ListCommand } from './commands.js'
 export {
   args,
-  flags,
   errors,
   Parser,
   FsLoader,
@@ -0,0 +1,101 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { readFile } from 'node:fs/promises'
+import { Prompt } from '@poppinss/prompts'
+import { RuntimeException } from '@poppinss/utils'
+
+/**
+ * Prompt implementation that never waits for the user input. The
+ * answers are looked up by the prompt name instead.
+ *
+ * When "acceptDefaults" is enabled, the confirmation prompts are
+ * accepted and the rest of the prompts without an answer use their
+ * default value.
+ */
+export class NonInteractivePrompt extends Prompt {
+  #answers: Record<string, any>
+  #acceptDefaults: boolean
+
+  constructor(answers: Record<string, any>, options: { acceptDefaults?: boolean } = {}) {
+    super()
+    this.#answers = answers
+    this.#acceptDefaults = options.acceptDefaults === true
+  }
+
+  /**
+   * Reads the answers from a JSON file. The file must contain an
+   * object of answers keyed by the prompt name
+   */
+  static async readAnswers(filePath: string): Promise<Record<string, any>> {
+    let answers: unknown
+    try {
+      answers = JSON.parse(await readFile(filePath, 'utf-8'))
+    } catch (error) {
+      throw new RuntimeException(`Unable to read prompt answers from "${filePath}" file`, {
+        cause: error,
+      })
+    }
+
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+      throw new RuntimeException(`Invalid answers file "${filePath}". Expected a JSON object`)
+    }
+
+    return answers as Record<string, any>
+  }
+
+  /**
+   * Returns the default answer of the prompt. Select prompts may
+   * define the default choice using its index
+   */
+  #getDefault(options: any) {
+    if (options.type === 'confirm' || options.type === 'toggle') {
+      return true
+    }
+
+    if (
+      typeof options.initial === 'number' &&
+      (options.type === 'select' || options.type === 'autocomplete')
+    ) {
+      return options.choices[options.initial]?.name
+    }
+
+    return options.initial
+  }
+
+  /**
+   * Resolves the answer for the prompt and runs its validation
+   * and result functions
+   */
+  protected async prompt(options: any): Promise<any> {
+    let answer = this.#answers[options.name]
+    if (answer === undefined && this.#acceptDefaults) {
+      answer = this.#getDefault(options)
+    }
+
+    if (answer === undefined) {
+      throw new RuntimeException(
+        `Missing answer for prompt "${options.name}" (${options.message}). Define it inside the answers file`
+      )
+    }
+
+    if (options.validate) {
+      const validation = await options.validate(answer)
+      if (validation !== true) {
+        throw new RuntimeException(
+          `Invalid answer for prompt "${options.name}". ${
+            typeof validation === 'string' ? validation : 'The validation failed'
+          }`
+        )
+      }
+    }
+
+    return options.result ? options.result(answer) : answer
+  }
+}
@@ -0,0 +1,263 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { readFile, readdir } from 'node:fs/promises'
+import { RuntimeException } from '@poppinss/utils'
+import { basename, dirname, isAbsolute, join, resolve } from 'node:path'
+
+import type { LocatedPackage } from '../../types/ace.js'
+
+/**
+ * Specifiers of the packages installed from git repositories
+ */
+const GIT_SPECIFIER = /^(git\+|git:\/\/|github:|gitlab:|bitbucket:)|^https?:\/\/.+\.git(#.*)?$/
+
+/**
+ * Locates the packages to install and configure. The specifier
+ * can be one of the following.
+ *
+ * - The name of a package published to the registry.
+ * - A relative or an absolute path to a package directory.
+ * - The "workspace:<name>" of a package within the monorepo.
+ * - The URL of a git repository.
+ */
+export class PackageLocator {
+  #appRoot: string
+
+  constructor(appRoot: string) {
+    this.#appRoot = appRoot
+  }
+
+  /**
+   * Reads the "package.json" file from the directory. Returns null
+   * when the file is missing
+   */
+  async #readPackageJson(directory: string): Promise<Record<string, any> | null> {
+    try {
+      return JSON.parse(await readFile(join(directory, 'package.json'), 'utf-8'))
+    } catch (error) {
+      if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Returns the entrypoint of the package from its "exports"
+   * or the "main" field
+   */
+  #getEntryPoint(packageJson: Record<string, any>) {
+    let entryPoint = packageJson.exports
+    if (entryPoint && typeof entryPoint === 'object' && '.' in entryPoint) {
+      entryPoint = entryPoint['.']
+    }
+
+    while (entryPoint && typeof entryPoint === 'object') {
+      entryPoint = entryPoint.import ?? entryPoint.node ?? entryPoint.default
+    }
+
+    return typeof entryPoint === 'string' ? entryPoint : packageJson.main || 'index.js'
+  }
+
+  /**
+   * Returns the workspace patterns defined inside the
+   * "pnpm-workspace.yaml" file
+   */
+  async #readPnpmWorkspace(directory: string) {
+    let contents: string
+    try {
+      contents = await readFile(join(directory, 'pnpm-workspace.yaml'), 'utf-8')
+    } catch {
+      return null
+    }
+
+    const patterns: string[] = []
+    let inPackagesList = false
+    for (const line of contents.split(/\r?\n/)) {
+      if (/^packages\s*:/.test(line)) {
+        inPackagesList = true
+        continue
+      }
+
+      const entry = line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/)
+      if (inPackagesList && entry) {
+        patterns.push(entry[1])
+      } else if (line.trim() && !line.trim().startsWith('#')) {
+        inPackagesList = false
+      }
+    }
+
+    return patterns
+  }
+
+  /**
+   * Finds the root of the monorepo by walking up from the app
+   * root. Returns null when the app is not part of a monorepo
+   */
+  async #findWorkspaceRoot() {
+    let directory = this.#appRoot
+    while (true) {
+      const pnpmPatterns = await this.#readPnpmWorkspace(directory)
+      if (pnpmPatterns) {
+        return { root: directory, patterns: pnpmPatterns }
+      }
+
+      const packageJson = await this.#readPackageJson(directory)
+      const workspaces = packageJson?.workspaces
+      if (workspaces) {
+        const patterns = Array.isArray(workspaces) ? workspaces : workspaces.packages || []
+        return { root: directory, patterns: patterns as string[] }
+      }
+
+      const parent = dirname(directory)
+      if (parent === directory) {
+        return null
+      }
+      directory = parent
+    }
+  }
+
+  /**
+   * Expands the directories matching the workspace pattern. Only
+   * the "*" and the "**" wildcards are supported
+   */
+  async #expandPattern(directory: string, segments: string[]): Promise<string[]> {
+    if (!segments.length) {
+      return [directory]
+    }
+
+    const [segment, ...rest] = segments
+    if (segment !== '*' && segment !== '**') {
+      return this.#expandPattern(join(directory, segment), rest)
+    }
+
+    let entries: string[]
+    try {
+      const dirents = await readdir(directory, { withFileTypes: true })
+      entries = dirents
+        .filter((entry) => entry.isDirectory())
+        .filter((entry) => entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+        .map((entry) => entry.name)
+    } catch {
+      return []
+    }
+
+    const directories: string[] = segment === '**' ? await this.#expandPattern(directory, rest) : []
+    for (const entry of entries) {
+      directories.push(
+        ...(await this.#expandPattern(join(directory, entry), segment === '**' ? segments : rest))
+      )
+    }
+
+    return directories
+  }
+
+  /**
+   * Returns the directories of the packages within the monorepo
+   */
+  async #getWorkspacePackages() {
+    const workspace = await this.#findWorkspaceRoot()
+    if (!workspace) {
+      return []
+    }
+
+    const directories = new Set<string>()
+    for (const pattern of workspace.patterns) {
+      if (pattern.startsWith('!')) {
+        continue
+      }
+
+      const segments = pattern.split('/').filter((segment) => segment && segment !== '.')
+      for (const directory of await this.#expandPattern(workspace.root, segments)) {
+        directories.add(directory)
+      }
+    }
+
+    return [...directories]
+  }
+
+  /**
+   * Creates the located package from its directory
+   */
+  #toLocatedPackage(
+    specifier: string,
+    directory: string,
+    packageJson: Record<string, any>,
+    source: 'local' | 'workspace'
+  ): LocatedPackage {
+    return {
+      source,
+      specifier,
+      name: packageJson.name,
+      path: directory,
+      entryPoint: join(directory, this.#getEntryPoint(packageJson)),
+    }
+  }
+
+  /**
+   * Locates the package within the monorepo by its name or the
+   * name of its directory
+   */
+  async #locateWorkspacePackage(specifier: string, name: string) {
+    for (const directory of await this.#getWorkspacePackages()) {
+      const packageJson = await this.#readPackageJson(directory)
+      if (!packageJson) {
+        continue
+      }
+
+      const packageName: string | undefined = packageJson.name
+      if (
+        packageName === name ||
+        packageName?.endsWith(`/${name}`) ||
+        basename(directory) === name
+      ) {
+        return this.#toLocatedPackage(specifier, directory, packageJson, 'workspace')
+      }
+    }
+
+    throw new RuntimeException(
+      `Cannot find workspace package "${name}". Make sure it is part of the workspace packages`
+    )
+  }
+
+  /**
+   * Locates the package from its specifier
+   */
+  async locate(specifier: string): Promise<LocatedPackage> {
+    if (specifier.startsWith('workspace:')) {
+      return this.#locateWorkspacePackage(specifier, specifier.replace('workspace:', ''))
+    }
+
+    if (GIT_SPECIFIER.test(specifier)) {
+      return { source: 'git', specifier }
+    }
+
+    /**
+     * Paths to the directories without the "package.json" file are
+     * imported as they are. It allows configuring a package using
+     * the path to its entrypoint
+     */
+    if (specifier.startsWith('./') || specifier.startsWith('../') || isAbsolute(specifier)) {
+      const directory = resolve(this.#appRoot, specifier)
+      const packageJson = await this.#readPackageJson(directory)
+      if (packageJson) {
+        const workspacePackages = await this.#getWorkspacePackages()
+        return this.#toLocatedPackage(
+          specifier,
+          directory,
+          packageJson,
+          workspacePackages.includes(directory) ? 'workspace' : 'local'
+        )
+      }
+    }
+
+    return { source: 'registry', specifier, name: specifier }
+  }
+}
@@ -0,0 +1,67 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { detectPackageManager } from '@antfu/install-pkg'
+import type { ApplicationService } from '../../src/types.js'
+
+/**
+ * Package managers supported by the commands installing and
+ * uninstalling packages
+ */
+export const KNOWN_PACKAGE_MANAGERS = [
+  'npm',
+  'pnpm',
+  'bun',
+  'yarn',
+  'yarn@berry',
+  'pnpm@6',
+] as const
+
+/**
+ * One of the known package managers
+ */
+export type KnownPackageManager = (typeof KNOWN_PACKAGE_MANAGERS)[number]
+
+/**
+ * Returns the package manager to use. The package manager of the
+ * app is detected when not selected explicitly
+ */
+export async function getPackageManager(
+  app: ApplicationService,
+  packageManager?: string
+): Promise<KnownPackageManager> {
+  const selected = packageManager || (await detectPackageManager(app.makePath())) || 'npm'
+  const known = KNOWN_PACKAGE_MANAGERS.find((knownPackageManager) => {
+    return knownPackageManager === selected
+  })
+
+  if (!known) {
+    throw new Error('Invalid package manager. Must be one of npm, pnpm, bun or yarn')
+  }
+
+  return known
+}
+
+/**
+ * Imports the main exports of a package. Returns null when
+ * the package cannot be found
+ */
+export async function importPackage(app: ApplicationService, packageName: string) {
+  try {
+    return await app.import(packageName)
+  } catch (error) {
+    if (
+      (error.code && error.code === 'ERR_MODULE_NOT_FOUND') ||
+      error.message.startsWith('Cannot find module')
+    ) {
+      return null
+    }
+    throw error
+  }
+}
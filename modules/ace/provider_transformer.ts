@@ -0,0 +1,93 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { fileURLToPath } from 'node:url'
+import type { ContainerBindingNode } from '../../types/ace.js'
+import {
+  quote,
+  normalizeCode,
+  editorSettings,
+  addDefaultImport,
+  type TsMorphProject,
+} from './transformer_utils.js'
+
+/**
+ * Transforms a service provider to register container bindings
+ * inside its "register" method. The method is created when
+ * missing.
+ */
+export class ProviderTransformer {
+  #cwd: URL
+  #project: TsMorphProject
+
+  constructor(cwd: URL, project: TsMorphProject) {
+    this.#cwd = cwd
+    this.#project = project
+  }
+
+  /**
+   * Get the provider source file
+   */
+  #getProviderFileOrThrow(providerPath: string) {
+    const filePath = fileURLToPath(new URL(providerPath, this.#cwd))
+    return this.#project.getSourceFile(filePath) || this.#project.addSourceFileAtPath(filePath)
+  }
+
+  /**
+   * Registers the container bindings inside the "register" method
+   * of the provider. The existing bindings are not registered
+   * again
+   */
+  async addBindings(providerPath: string, bindings: ContainerBindingNode[]) {
+    const file = this.#getProviderFileOrThrow(providerPath)
+    const provider = file.getClasses().find((classDeclaration) => {
+      return classDeclaration.isDefaultExport()
+    })
+    if (!provider) {
+      throw new Error(`Cannot find the provider class exported from "${providerPath}" file`)
+    }
+
+    let register = provider.getMethod('register')
+    if (!register) {
+      const constructorIndex = provider
+        .getMembers()
+        .findIndex((member) => member.getKindName() === 'Constructor')
+
+      register = provider.insertMethod(constructorIndex + 1, {
+        name: 'register',
+        leadingTrivia: (writer) => {
+          writer.writeLine('/**')
+          writer.writeLine(' * Register bindings to the container')
+          writer.writeLine(' */')
+        },
+      })
+    }
+
+    for (const { method, binding, factory } of bindings) {
+      if (typeof binding !== 'string') {
+        addDefaultImport(file, binding.name, binding.path)
+      }
+
+      const key = typeof binding === 'string' ? quote(binding) : binding.name
+      const isRegistered = register.getStatements().some((statement) => {
+        const code = normalizeCode(statement.getText())
+        return ['singleton', 'bind'].some((bindingMethod) => {
+          return code.startsWith(normalizeCode(`this.app.container.${bindingMethod}(${key},`))
+        })
+      })
+
+      if (!isRegistered) {
+        register.addStatements(`this.app.container.${method}(${key}, ${factory})`)
+      }
+    }
+
+    file.formatText(editorSettings)
+    await file.save()
+  }
+}
@@ -0,0 +1,316 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { fileURLToPath } from 'node:url'
+import type { MiddlewareNode } from '@adonisjs/assembler/types'
+import type { PluginImportNode, RcFileEntriesNode } from '../../types/ace.js'
+import {
+  editorSettings,
+  type SourceFile,
+  type TsMorphNode,
+  type TsMorphProject,
+} from './transformer_utils.js'
+
+/**
+ * The subset of the ts-morph CallExpression API used by
+ * the transformer
+ */
+type CallNode = TsMorphNode & {
+  getArguments(): TsMorphNode[]
+}
+
+/**
+ * The subset of the ts-morph ArrayLiteralExpression API used
+ * by the transformer
+ */
+type ArrayLiteralNode = TsMorphNode & {
+  getElements(): TsMorphNode[]
+  removeElement(element: TsMorphNode): void
+}
+
+/**
+ * The subset of the ts-morph ObjectLiteralExpression API used
+ * by the transformer
+ */
+type ObjectLiteralNode = TsMorphNode & {
+  getProperties(): (TsMorphNode & { getName?(): string; remove(): void })[]
+}
+
+/**
+ * Reverses the changes made by the codemods of the configure
+ * hooks. The entries that cannot be found are ignored.
+ */
+export class RemovalTransformer {
+  #cwd: URL
+  #project: TsMorphProject
+
+  constructor(cwd: URL, project: TsMorphProject) {
+    this.#cwd = cwd
+    this.#project = project
+  }
+
+  /**
+   * Get a source file by its path relative from the
+   * application root
+   */
+  #getFileOrThrow(relativePath: string) {
+    const filePath = fileURLToPath(new URL(relativePath, this.#cwd))
+    return this.#project.getSourceFile(filePath) || this.#project.addSourceFileAtPath(filePath)
+  }
+
+  /**
+   * Returns the arguments of the first call to the given
+   * function
+   */
+  #getCallArguments(file: SourceFile, callee: string) {
+    const call = file.getDescendants().find((node) => {
+      return node.getKindName() === 'CallExpression' && node.getFirstChild()?.getText() === callee
+    })
+
+    return (call as CallNode | undefined)?.getArguments() ?? []
+  }
+
+  /**
+   * Find if the node lazily imports the given module
+   */
+  #importsModule(node: TsMorphNode, modulePath: string) {
+    return node.getDescendants().some((child) => {
+      return (
+        child.getKindName() === 'CallExpression' &&
+        child.getFirstChild()?.getKindName() === 'ImportKeyword' &&
+        (child as CallNode).getArguments()[0]?.getText().slice(1, -1) === modulePath
+      )
+    })
+  }
+
+  /**
+   * Find if the last item of a list has a trailing comma
+   */
+  #hasTrailingComma(items: TsMorphNode[]) {
+    return items[items.length - 1]?.getNextSibling()?.getKindName() === 'CommaToken'
+  }
+
+  /**
+   * Adds the trailing comma after the last item of a list. The
+   * nodes of the file are discarded after adding the comma
+   */
+  #addTrailingComma(items: TsMorphNode[]) {
+    const lastItem = items[items.length - 1]
+    if (lastItem && !this.#hasTrailingComma(items)) {
+      lastItem.getSourceFile().insertText(lastItem.getEnd(), ',')
+    }
+  }
+
+  /**
+   * Removes the elements matching the predicate from an array
+   * literal. The trailing comma of the array is kept
+   */
+  #removeElements(array: TsMorphNode | undefined, predicate: (element: TsMorphNode) => boolean) {
+    if (array?.getKindName() !== 'ArrayLiteralExpression') {
+      return
+    }
+
+    const arrayNode = array as ArrayLiteralNode
+    const hasTrailingComma = this.#hasTrailingComma(arrayNode.getElements())
+
+    arrayNode
+      .getElements()
+      .filter(predicate)
+      .reverse()
+      .forEach((element) => arrayNode.removeElement(element))
+
+    if (hasTrailingComma) {
+      this.#addTrailingComma(arrayNode.getElements())
+    }
+  }
+
+  /**
+   * Removes the properties matching the predicate from an
+   * object literal. The trailing comma of the object is kept
+   */
+  #removeProperties(
+    object: TsMorphNode | undefined,
+    predicate: (property: ReturnType<ObjectLiteralNode['getProperties']>[number]) => boolean
+  ) {
+    if (object?.getKindName() !== 'ObjectLiteralExpression') {
+      return
+    }
+
+    const objectNode = object as ObjectLiteralNode
+    const hasTrailingComma = this.#hasTrailingComma(objectNode.getProperties())
+
+    objectNode
+      .getProperties()
+      .filter(predicate)
+      .reverse()
+      .forEach((property) => property.remove())
+
+    if (hasTrailingComma) {
+      this.#addTrailingComma(objectNode.getProperties())
+    }
+  }
+
+  /**
+   * Returns the initializer of a property defined in the
+   * object literal
+   */
+  #getPropertyInitializer(object: TsMorphNode | undefined, name: string) {
+    if (object?.getKindName() !== 'ObjectLiteralExpression') {
+      return
+    }
+
+    const property = (object as ObjectLiteralNode).getProperties().find((node) => {
+      return node.getKindName() === 'PropertyAssignment' && node.getName?.() === name
+    })
+    return property?.getLastChild()
+  }
+
+  /**
+   * Formats and saves the file
+   */
+  async #save(file: SourceFile) {
+    file.formatText(editorSettings)
+    await file.save()
+  }
+
+  /**
+   * Removes the providers, the commands, the preload files and
+   * the meta files from the "adonisrc.ts" file
+   */
+  async removeFromRcFile(entries: RcFileEntriesNode) {
+    const file = this.#getFileOrThrow('./adonisrc.ts')
+    const getConfig = () => this.#getCallArguments(file, 'defineConfig')[0]
+
+    const modules = {
+      providers: entries.providers,
+      commands: entries.commands,
+      preloads: entries.preloadFiles,
+    }
+    for (const [property, modulePaths] of Object.entries(modules)) {
+      if (modulePaths?.length) {
+        this.#removeElements(this.#getPropertyInitializer(getConfig(), property), (element) => {
+          return modulePaths.some((modulePath) => this.#importsModule(element, modulePath))
+        })
+      }
+    }
+
+    if (entries.metaFiles?.length) {
+      this.#removeElements(this.#getPropertyInitializer(getConfig(), 'metaFiles'), (element) => {
+        const pattern = this.#getPropertyInitializer(element, 'pattern')?.getText().slice(1, -1)
+        return !!pattern && entries.metaFiles!.includes(pattern)
+      })
+    }
+
+    await this.#save(file)
+  }
+
+  /**
+   * Removes middleware from the "start/kernel.ts" file
+   */
+  async removeMiddleware(stack: 'server' | 'router' | 'named', middleware: MiddlewareNode[]) {
+    const file = this.#getFileOrThrow('./start/kernel.ts')
+
+    if (stack === 'named') {
+      const [namedMiddleware] = this.#getCallArguments(file, 'router.named')
+      this.#removeProperties(namedMiddleware, (property) => {
+        return middleware.some((entry) => this.#importsModule(property, entry.path))
+      })
+    } else {
+      const [middlewareArray] = this.#getCallArguments(file, `${stack}.use`)
+      this.#removeElements(middlewareArray, (element) => {
+        return middleware.some((entry) => this.#importsModule(element, entry.path))
+      })
+    }
+
+    await this.#save(file)
+  }
+
+  /**
+   * Removes the validations of the environment variables from
+   * the "start/env.ts" file
+   */
+  async removeEnvValidations(variables: string[]) {
+    const file = this.#getFileOrThrow('./start/env.ts')
+    const [, validations] = this.#getCallArguments(file, 'Env.create')
+
+    this.#removeProperties(validations, (property) => {
+      return variables.includes(property.getName?.() ?? '')
+    })
+
+    await this.#save(file)
+  }
+
+  /**
+   * Removes a plugin from the "plugins" array of the file, along
+   * with its import declarations when they are not used anymore
+   */
+  async removePlugin(filePath: string, pluginCall: string, importDeclarations: PluginImportNode[]) {
+    const file = this.#getFileOrThrow(filePath)
+    const callee = pluginCall.split('(')[0].trim()
+
+    const plugins = file.getDescendants().find((node) => {
+      return (
+        ['PropertyAssignment', 'VariableDeclaration'].includes(node.getKindName()) &&
+        node.getFirstChild()?.getText() === 'plugins'
+      )
+    })
+
+    this.#removeElements(plugins?.getLastChild(), (element) => {
+      return element.getText() === pluginCall || element.getFirstChild()?.getText() === callee
+    })
+
+    this.#removeUnusedImports(file, importDeclarations)
+    await this.#save(file)
+  }
+
+  /**
+   * Removes the import declarations whose identifiers are not
+   * used by the file anymore
+   */
+  #removeUnusedImports(file: SourceFile, importDeclarations: PluginImportNode[]) {
+    for (const { isNamed, module, identifier } of importDeclarations) {
+      const isUsed = file.getDescendants().some((node) => {
+        return (
+          node.getKindName() === 'Identifier' &&
+          node.getText() === identifier &&
+          !node.getAncestors().some((ancestor) => ancestor.getKindName() === 'ImportDeclaration')
+        )
+      })
+
+      const declaration = file
+        .getImportDeclarations()
+        .find((importDeclaration) => importDeclaration.getModuleSpecifierValue() === module)
+
+      if (isUsed || !declaration) {
+        continue
+      }
+
+      if (isNamed) {
+        declaration
+          .getNamedImports()
+          .find((namedImport) => namedImport.getName() === identifier)
+          ?.remove()
+      } else if (declaration.getDefaultImport()?.getText() === identifier) {
+        declaration.removeDefaultImport()
+      }
+
+      /**
+       * Removing the text from the end of the previous statement
+       * keeps the blank line after the import declarations
+       */
+      if (!declaration.getDefaultImport() && !declaration.getNamedImports().length) {
+        if (declaration.getPreviousSibling()) {
+          file.removeText(declaration.getPos(), declaration.getEnd())
+        } else {
+          declaration.remove()
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,213 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { fileURLToPath } from 'node:url'
+import type { RouteControllerNode, RouteNode } from '../../types/ace.js'
+import {
+  quote,
+  normalizeCode,
+  editorSettings,
+  addAfterImports,
+  addDefaultImport,
+  type SourceFile,
+  type TsMorphNode,
+  type TsMorphProject,
+} from './transformer_utils.js'
+
+/**
+ * A list of statements in which the routes are registered. It is
+ * either the routes file or the callback of a routes group
+ */
+type RoutesContainer = {
+  statements: TsMorphNode[]
+  insert(code: string): void
+}
+
+/**
+ * Transforms the "start/routes.ts" file to register routes, groups
+ * and resources. The controllers are imported lazily and the
+ * existing routes are not registered again.
+ */
+export class RoutesTransformer {
+  #cwd: URL
+  #project: TsMorphProject
+
+  constructor(cwd: URL, project: TsMorphProject) {
+    this.#cwd = cwd
+    this.#project = project
+  }
+
+  /**
+   * Get the "start/routes.ts" source file
+   */
+  #getRoutesFileOrThrow() {
+    const routesFile = fileURLToPath(new URL('./start/routes.ts', this.#cwd))
+    return this.#project.getSourceFile(routesFile) || this.#project.addSourceFileAtPath(routesFile)
+  }
+
+  /**
+   * Indents every line of the code
+   */
+  #indent(code: string, spaces: number) {
+    return code
+      .split('\n')
+      .map((line) => (line ? `${' '.repeat(spaces)}${line}` : line))
+      .join('\n')
+  }
+
+  /**
+   * Returns the code for a route node
+   */
+  #render(route: RouteNode): string {
+    if (route.type === 'group') {
+      const routes = route.routes.map((child) => this.#render(child)).join('\n')
+      return [
+        'router',
+        '  .group(() => {',
+        this.#indent(routes, 4),
+        '  })',
+        `  .prefix(${quote(route.prefix)})`,
+      ].join('\n')
+    }
+
+    if (route.type === 'resource') {
+      const resource = `router.resource(${quote(route.resource)}, ${route.controller.name})`
+      return route.apiOnly ? `${resource}.apiOnly()` : resource
+    }
+
+    const handler = route.action
+      ? `[${route.controller.name}, ${quote(route.action)}]`
+      : `[${route.controller.name}]`
+    const definition = `router.${route.method}(${quote(route.pattern)}, ${handler})`
+    return route.name ? `${definition}.as(${quote(route.name)})` : definition
+  }
+
+  /**
+   * Find if the route or the resource is registered already
+   */
+  #hasRoute(statements: TsMorphNode[], route: Exclude<RouteNode, { type: 'group' }>) {
+    const key = normalizeCode(
+      route.type === 'resource'
+        ? `router.resource(${quote(route.resource)},`
+        : `router.${route.method}(${quote(route.pattern)},`
+    )
+
+    return statements.some((statement) => normalizeCode(statement.getText()).startsWith(key))
+  }
+
+  /**
+   * Returns the callback body of a routes group
+   */
+  #getGroupCallback(statement: TsMorphNode) {
+    return statement.getDescendants().find((node) => node.getKindName() === 'Block')
+  }
+
+  /**
+   * Finds the group using the given prefix
+   */
+  #findGroup(statements: TsMorphNode[], prefix: string) {
+    const prefixCall = normalizeCode(`.prefix(${quote(prefix)})`)
+
+    return statements.find((statement) => {
+      const code = statement.getText()
+      const callback = this.#getGroupCallback(statement)
+      if (!callback || !normalizeCode(code).startsWith('router.group(')) {
+        return false
+      }
+
+      const chainedCalls = code.slice(callback.getEnd() - statement.getStart())
+      return normalizeCode(chainedCalls).includes(prefixCall)
+    })
+  }
+
+  /**
+   * Returns the container for the routes registered inside
+   * a group
+   */
+  #getGroupContainer(file: SourceFile, group: TsMorphNode): RoutesContainer {
+    const callback = this.#getGroupCallback(group)!
+    return {
+      statements: callback.getChildSyntaxList()?.getChildren() ?? [],
+      insert: (code) => {
+        file.insertText(callback.getEnd() - 1, `${code}\n`)
+      },
+    }
+  }
+
+  /**
+   * Adds the routes to the container. The container is looked up
+   * again after every insertion, since inserting text discards
+   * the existing nodes.
+   */
+  #addRoutes(file: SourceFile, getContainer: () => RoutesContainer, routes: RouteNode[]) {
+    for (const route of routes) {
+      if (route.type === 'group') {
+        const findGroup = () => this.#findGroup(getContainer().statements, route.prefix)
+        if (findGroup()) {
+          this.#addRoutes(file, () => this.#getGroupContainer(file, findGroup()!), route.routes)
+          continue
+        }
+      } else if (this.#hasRoute(getContainer().statements, route)) {
+        continue
+      }
+
+      getContainer().insert(this.#render(route))
+    }
+  }
+
+  /**
+   * Collects the controllers referenced by the routes
+   */
+  #collectControllers(
+    routes: RouteNode[],
+    controllers: Map<string, RouteControllerNode> = new Map()
+  ) {
+    for (const route of routes) {
+      if (route.type === 'group') {
+        this.#collectControllers(route.routes, controllers)
+      } else {
+        controllers.set(route.controller.name, route.controller)
+      }
+    }
+
+    return controllers
+  }
+
+  /**
+   * Adds the lazy imports for the controllers after the existing
+   * import declarations and the lazy imports
+   */
+  #addControllerImports(file: SourceFile, controllers: RouteControllerNode[]) {
+    for (const controller of controllers) {
+      if (file.getVariableStatement(controller.name)) {
+        continue
+      }
+
+      addAfterImports(file, `const ${controller.name} = () => import(${quote(controller.path)})`)
+    }
+  }
+
+  /**
+   * Registers the routes inside the "start/routes.ts" file
+   */
+  async addRoutes(routes: RouteNode[]) {
+    const file = this.#getRoutesFileOrThrow()
+
+    addDefaultImport(file, 'router', '@adonisjs/core/services/router')
+    this.#addControllerImports(file, [...this.#collectControllers(routes).values()])
+    this.#addRoutes(
+      file,
+      () => ({ statements: file.getStatements(), insert: (code) => file.addStatements(code) }),
+      routes
+    )
+
+    file.formatText(editorSettings)
+    await file.save()
+  }
+}
@@ -0,0 +1,334 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import type { Kernel } from '@adonisjs/ace'
+import type { CommandMetaData, Flag } from '@adonisjs/ace/types'
+
+/**
+ * Shells for which the completion scripts can be generated
+ */
+export const SUPPORTED_SHELLS = ['bash', 'zsh', 'fish', 'powershell'] as const
+export type SupportedShell = (typeof SUPPORTED_SHELLS)[number]
+
+/**
+ * Resolvers for the dynamic completion sources. The source name
+ * is referenced inside the "completions" command option.
+ */
+export type CompletionSources = Record<string, () => Promise<string[]> | string[]>
+
+/**
+ * Details of the binary for which the completion script is generated.
+ * For example: The "node ace" binary is registered for the "node"
+ * program with "ace" as the prefix.
+ */
+type BinaryInfo = {
+  binary: string
+  program: string
+  prefix: string[]
+  functionName: string
+}
+
+/**
+ * Completion scripts for the supported shells. The scripts forward
+ * the words typed after the binary to the "__complete" command
+ * and use its output (one value per line) as the suggestions.
+ */
+const SCRIPTS: Record<SupportedShell, (info: BinaryInfo) => string> = {
+  bash({ binary, program, prefix, functionName }) {
+    const conditions = prefix.map((word, index) => `"\${words[${index + 1}]}" == "${word}"`)
+    const guard = [...conditions, `\${#words[@]} -gt ${prefix.length + 1}`].join(' && ')
+
+    return [
+      `# ${binary} completions for bash. Add the following line to "~/.bashrc"`,
+      `# source <(${binary} completions bash)`,
+      `${functionName}() {`,
+      `  local line="\${COMP_LINE:0:COMP_POINT}"`,
+      `  local -a words`,
+      `  read -ra words <<< "$line"`,
+      `  [[ "$line" == *" " ]] && words+=("")`,
+      ``,
+      `  COMPREPLY=()`,
+      `  [[ ${guard} ]] || return 0`,
+      ``,
+      `  local IFS=$'\\n'`,
+      `  COMPREPLY=($(${binary} __complete -- "\${words[@]:${prefix.length + 1}}" 2>/dev/null))`,
+      ``,
+      `  local current="\${words[\${#words[@]}-1]}"`,
+      `  if [[ "$current" == *:* && "$COMP_WORDBREAKS" == *:* ]]; then`,
+      `    local colon_prefix="\${current%"\${current##*:}"}"`,
+      `    local index=\${#COMPREPLY[@]}`,
+      `    while ((index-- > 0)); do`,
+      `      COMPREPLY[index]="\${COMPREPLY[index]#"$colon_prefix"}"`,
+      `    done`,
+      `  fi`,
+      `}`,
+      `complete -o default -F ${functionName} ${program}`,
+    ].join('\n')
+  },
+
+  zsh({ binary, program, prefix, functionName }) {
+    const conditions = prefix.map((word, index) => `"\${words[${index + 2}]}" == "${word}"`)
+    const guard = [...conditions, `$CURRENT -gt ${prefix.length + 1}`].join(' && ')
+
+    return [
+      `# ${binary} completions for zsh. Add the following line to "~/.zshrc"`,
+      `# source <(${binary} completions zsh)`,
+      `${functionName}() {`,
+      `  if [[ ! ( ${guard} ) ]]; then`,
+      `    _files`,
+      `    return`,
+      `  fi`,
+      ``,
+      `  local -a suggestions`,
+      `  suggestions=(\${(f)"$(${binary} __complete -- "\${(@)words[${prefix.length + 2},CURRENT]}" 2>/dev/null)"})`,
+      `  compadd -- $suggestions`,
+      `}`,
+      `compdef ${functionName} ${program}`,
+    ].join('\n')
+  },
+
+  fish({ binary, program, prefix, functionName }) {
+    const conditions = prefix.map((word, index) => `test "$tokens[${index + 2}]" = "${word}"`)
+    const guard = [`test (count $tokens) -ge ${prefix.length + 1}`, ...conditions].join('; and ')
+
+    return [
+      `# ${binary} completions for fish. Add the following line to "~/.config/fish/config.fish"`,
+      `# ${binary} completions fish | source`,
+      `function ${functionName}_enabled`,
+      `    set -l tokens (commandline -opc)`,
+      `    ${guard}`,
+      `end`,
+      ``,
+      `function ${functionName}`,
+      `    set -l tokens (commandline -opc)`,
+      `    set -l current (commandline -ct)`,
+      `    ${binary} __complete -- $tokens[${prefix.length + 2}..-1] "$current" 2>/dev/null`,
+      `end`,
+      ``,
+      `complete -c ${program} -f -n ${functionName}_enabled -a '(${functionName})'`,
+    ].join('\n')
+  },
+
+  powershell({ binary, program, prefix }) {
+    const conditions = prefix.map((word, index) => `$words[${index + 1}] -ne '${word}'`)
+    const guard = [`$words.Count -lt ${prefix.length + 1}`, ...conditions].join(' -or ')
+
+    return [
+      `# ${binary} completions for PowerShell. Add the following line to the $PROFILE file`,
+      `# ${binary} completions powershell | Out-String | Invoke-Expression`,
+      `Register-ArgumentCompleter -Native -CommandName ${program} -ScriptBlock {`,
+      `  param($wordToComplete, $commandAst, $cursorPosition)`,
+      `  $words = @($commandAst.CommandElements | ForEach-Object { $_.ToString() })`,
+      `  if (${guard}) { return }`,
+      ``,
+      `  $arguments = @($words | Select-Object -Skip ${prefix.length + 1})`,
+      `  if ($wordToComplete -eq '') { $arguments += ' ' }`,
+      `  ${binary} __complete -- @arguments 2>$null | ForEach-Object {`,
+      `    [System.Management.Automation.CompletionResult]::new($_, $_, 'ParameterValue', $_)`,
+      `  }`,
+      `}`,
+    ].join('\n')
+  },
+}
+
+/**
+ * Shell completions generates the completion scripts for a given ace
+ * kernel and computes the suggestions for the words typed in the
+ * shell using the commands metadata.
+ */
+export class ShellCompletions {
+  #kernel: Kernel<any>
+  #sources: CompletionSources
+
+  constructor(kernel: Kernel<any>, sources: CompletionSources = {}) {
+    this.#kernel = kernel
+    this.#sources = sources
+  }
+
+  /**
+   * Returns the binary name used to run the commands
+   */
+  #getBinary() {
+    const binary = this.#kernel.info.get('binary')
+    return typeof binary === 'string' ? binary : 'node ace'
+  }
+
+  /**
+   * Returns the names of the flags including their aliases
+   */
+  #getFlagNames(flag: Omit<Flag, 'parse'>) {
+    const aliases = flag.alias ? ([] as string[]).concat(flag.alias) : []
+    const names = [`--${flag.flagName}`, ...aliases.map((alias) => `-${alias}`)]
+    if ('showNegatedVariantInHelp' in flag && flag.showNegatedVariantInHelp) {
+      names.push(`--no-${flag.flagName}`)
+    }
+    return names
+  }
+
+  /**
+   * Returns the flag for the given word. The word could be the
+   * flag name or one of its aliases
+   */
+  #findFlag(flags: Omit<Flag, 'parse'>[], word: string) {
+    const [name] = word.split('=')
+    return flags.find((flag) => this.#getFlagNames(flag).includes(name))
+  }
+
+  /**
+   * Returns the visible commands and aliases
+   */
+  #getCommandNames() {
+    const commands = this.#kernel
+      .getCommands()
+      .filter((command: CommandMetaData) => !command.options.hidden)
+
+    return commands
+      .map((command: CommandMetaData) => command.commandName)
+      .concat(this.#kernel.getAliases())
+  }
+
+  /**
+   * Resolves the completion values for an arg or a flag using
+   * the "completions" command option
+   */
+  async #getValues(command: CommandMetaData, name: string): Promise<string[]> {
+    const completions = command.options.completions?.[name]
+    if (Array.isArray(completions)) {
+      return completions
+    }
+
+    const source = completions && this.#sources[completions]
+    return source ? source() : []
+  }
+
+  /**
+   * Returns the name of the arg for the positional value being
+   * completed. The spread arg accepts all the remaining values
+   */
+  #getArgName(command: CommandMetaData, flags: Omit<Flag, 'parse'>[], words: string[]) {
+    let position = 0
+    for (let index = 0; index < words.length; index++) {
+      const word = words[index]
+      if (word.startsWith('-')) {
+        const flag = this.#findFlag(flags, word)
+        if (flag && flag.type !== 'boolean' && !word.includes('=')) {
+          index++
+        }
+        continue
+      }
+      position++
+    }
+
+    const arg = command.args[position] || command.args.find((one) => one.type === 'spread')
+    return arg?.name
+  }
+
+  /**
+   * Returns the completion script for a given shell
+   */
+  getScript(shell: SupportedShell) {
+    const binary = this.#getBinary()
+    const [program, ...prefix] = binary.split(' ')
+    const functionName = `_${binary.replace(/[^a-zA-Z0-9]+/g, '_')}_completions`
+    return SCRIPTS[shell]({ binary, program, prefix, functionName })
+  }
+
+  /**
+   * Prints the completion script for a given shell. Returns false
+   * when the shell is not supported
+   */
+  printScript(shell: SupportedShell) {
+    const { logger } = this.#kernel.ui
+    if (!SUPPORTED_SHELLS.includes(shell)) {
+      logger.error(`Unsupported shell "${shell}". Select from "${SUPPORTED_SHELLS.join(', ')}"`)
+      return false
+    }
+
+    logger.log(this.getScript(shell))
+    return true
+  }
+
+  /**
+   * Prints the suggestions for the words typed after the binary,
+   * one suggestion per line
+   */
+  async printSuggestions(words: string[]) {
+    const suggestions = await this.getSuggestions(words.length ? words : [''])
+    suggestions.forEach((suggestion) => this.#kernel.ui.logger.log(suggestion))
+  }
+
+  /**
+   * Returns the suggestions for the words typed after the binary.
+   * The last word is the one being completed and could be an
+   * empty (or a blank) string.
+   */
+  async getSuggestions(words: string[]): Promise<string[]> {
+    const current = words.length ? words[words.length - 1].trim() : ''
+    const previous = words.slice(0, -1)
+    const commandIndex = previous.findIndex((word) => !word.startsWith('-'))
+    const globalFlags = this.#kernel.flags
+
+    let suggestions: string[] = []
+
+    if (commandIndex === -1) {
+      /**
+       * Completing the command name or the global flags
+       */
+      suggestions = current.startsWith('-')
+        ? globalFlags.flatMap((flag) => this.#getFlagNames(flag))
+        : this.#getCommandNames()
+    } else {
+      const commandName = previous[commandIndex]
+      const command =
+        this.#kernel.getCommand(commandName) || this.#kernel.getAliasCommand(commandName)
+      if (!command) {
+        return []
+      }
+
+      const flags = [...command.flags, ...globalFlags]
+      const commandWords = previous.slice(commandIndex + 1)
+      const previousFlag = commandWords.length
+        ? this.#findFlag(flags, commandWords[commandWords.length - 1])
+        : undefined
+
+      if (current.startsWith('--') && current.includes('=')) {
+        /**
+         * Completing the value of a flag defined as "--flag=value"
+         */
+        const flag = this.#findFlag(flags, current)
+        const values = flag ? await this.#getValues(command, flag.name) : []
+        const flagName = current.split('=')[0]
+        suggestions = values.map((value) => `${flagName}=${value}`)
+      } else if (current.startsWith('-')) {
+        /**
+         * Completing the flag names
+         */
+        suggestions = flags.flatMap((flag) => this.#getFlagNames(flag))
+      } else if (
+        previousFlag &&
+        previousFlag.type !== 'boolean' &&
+        !commandWords[commandWords.length - 1].includes('=')
+      ) {
+        /**
+         * Completing the value for the flag mentioned as the
+         * previous word
+         */
+        suggestions = await this.#getValues(command, previousFlag.name)
+      } else {
+        /**
+         * Completing the value for an arg
+         */
+        const argName = this.#getArgName(command, flags, commandWords)
+        suggestions = argName ? await this.#getValues(command, argName) : []
+      }
+    }
+
+    return [...new Set(suggestions)].filter((suggestion) => suggestion.startsWith(current))
+  }
+}
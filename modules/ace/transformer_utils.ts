@@ -0,0 +1,81 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import type { CodeTransformer } from '@adonisjs/assembler/code_transformer'
+
+export type TsMorphProject = CodeTransformer['project']
+export type SourceFile = ReturnType<TsMorphProject['getSourceFileOrThrow']>
+export type TsMorphNode = ReturnType<SourceFile['getDescendants']>[number]
+
+/**
+ * Settings to use when persisting files
+ */
+export const editorSettings = {
+  indentSize: 2,
+  convertTabsToSpaces: true,
+  trimTrailingWhitespace: true,
+  ensureNewLineAtEndOfFile: true,
+  indentStyle: 2,
+  semicolons: 'remove',
+  insertSpaceAfterOpeningAndBeforeClosingEmptyBraces: false,
+} as Parameters<SourceFile['formatText']>[0]
+
+/**
+ * Converts a value to a single quoted string literal
+ */
+export function quote(value: string) {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+/**
+ * Normalizes code for comparison by removing the whitespace
+ * and the semicolons and by using single quotes
+ */
+export function normalizeCode(code: string) {
+  return code.replace(/\s+/g, '').replace(/"/g, "'").replace(/;$/, '')
+}
+
+/**
+ * Find if the statement is an import declaration or a lazy
+ * import assigned to a variable
+ */
+export function isImportStatement(statement: TsMorphNode) {
+  return (
+    statement.getKindName() === 'ImportDeclaration' ||
+    /=\s*\(\)\s*=>\s*import\(/.test(statement.getText())
+  )
+}
+
+/**
+ * Adds a statement after the existing import declarations and
+ * the lazy imports of the file
+ */
+export function addAfterImports(file: SourceFile, code: string) {
+  const lastImport = file.getStatements().reverse().find(isImportStatement)
+  file.insertStatements(lastImport ? lastImport.getChildIndex() + 1 : 0, code)
+}
+
+/**
+ * Adds the default import for a module, unless the identifier
+ * is defined already
+ */
+export function addDefaultImport(file: SourceFile, identifier: string, moduleSpecifier: string) {
+  const isDefined =
+    file.getVariableStatement(identifier) ||
+    file.getImportDeclarations().some((declaration) => {
+      return declaration.getDefaultImport()?.getText() === identifier
+    })
+
+  if (!isDefined) {
+    file.insertImportDeclaration(file.getImportDeclarations().length, {
+      defaultImport: identifier,
+      moduleSpecifier,
+    })
+  }
+}
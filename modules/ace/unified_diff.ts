@@ -0,0 +1,38 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { FILE_HEADERS_ONLY, formatPatch, structuredPatch } from 'diff'
+
+/**
+ * Creates a unified diff for the contents of a file. The "before"
+ * contents must be null for a new file. An empty string is
+ * returned when the contents are the same.
+ */
+export function createUnifiedDiff(
+  fileName: string,
+  before: string | null,
+  after: string,
+  context: number = 3
+) {
+  const patch = structuredPatch(
+    before === null ? '/dev/null' : `a/${fileName}`,
+    `b/${fileName}`,
+    before ?? '',
+    after,
+    undefined,
+    undefined,
+    { context }
+  )
+
+  if (!patch.hunks.length) {
+    return ''
+  }
+
+  return formatPatch(patch, FILE_HEADERS_ONLY).trimEnd()
+}
@@ -0,0 +1,23 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { defineConfig as defineServerConfig } from '@adonisjs/http-server'
+import type { ServerConfig, HttpServerProcessConfig } from '../../types/http.js'
+
+/**
+ * Define config for the HTTP server. Along with the options accepted
+ * by the "@adonisjs/http-server" package, you may define the options
+ * used by the HTTP server process to start and stop the Node.js
+ * HTTP server.
+ */
+export function defineConfig(
+  config: Parameters<typeof defineServerConfig>[0] & Partial<HttpServerProcessConfig>
+): ServerConfig & Partial<HttpServerProcessConfig> {
+  return defineServerConfig(config)
+}
@@ -13,4 +13,5 @@
  */
 import '@adonisjs/bodyparser'
 export * from '@adonisjs/http-server'
+export { defineConfig } from './define_config.js'
 export { RequestValidator } from './request_validator.js'
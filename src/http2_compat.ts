@@ -0,0 +1,139 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import type { OutgoingHttpHeader, OutgoingHttpHeaders } from 'node:http'
+import { Http2ServerRequest, Http2ServerResponse } from 'node:http2'
+
+/**
+ * Returns the header values as arrays, the same way the
+ * "headersDistinct" property of the HTTP/1 request does
+ */
+function toDistinct(headers: NodeJS.Dict<string | string[]>) {
+  return Object.keys(headers).reduce<NodeJS.Dict<string[]>>((result, name) => {
+    const value = headers[name]
+    if (value !== undefined) {
+      result[name] = Array.isArray(value) ? value : [value]
+    }
+    return result
+  }, {})
+}
+
+/**
+ * Converts the flat list of header names and values accepted by
+ * the HTTP/1 "writeHead" method to an headers object
+ */
+function toHeadersObject(headers: readonly OutgoingHttpHeader[]) {
+  const result: OutgoingHttpHeaders = {}
+
+  for (let index = 0; index < headers.length; index += 2) {
+    const name = String(headers[index]).toLowerCase()
+    const value = headers[index + 1]
+    const values = Array.isArray(value) ? value.map(String) : [String(value)]
+    const existing = result[name]
+
+    result[name] = existing === undefined ? values : [...(existing as string[]), ...values]
+  }
+
+  return result
+}
+
+/**
+ * Request class used by the HTTP/2 server. It implements the
+ * properties of the HTTP/1 request missing from the Node.js
+ * compatibility API.
+ */
+export class Http2Request extends Http2ServerRequest {
+  /**
+   * HTTP/2 trailers are single valued, except for "set-cookie"
+   * that is never sent as a trailer
+   */
+  declare readonly trailers: NodeJS.Dict<string>
+
+  get headersDistinct(): NodeJS.Dict<string[]> {
+    return toDistinct(this.headers)
+  }
+
+  get trailersDistinct(): NodeJS.Dict<string[]> {
+    return toDistinct(this.trailers)
+  }
+
+  setTimeout(msecs: number, callback?: () => void) {
+    super.setTimeout(msecs, callback)
+    return this
+  }
+}
+
+/**
+ * Response class used by the HTTP/2 server. It implements the
+ * methods of the HTTP/1 response missing from the Node.js
+ * compatibility API and accepts the HTTP/1 "writeHead" arguments.
+ */
+export class Http2Response extends Http2ServerResponse<Http2Request> {
+  /**
+   * HTTP/2 frames the response body itself. Chunked encoding
+   * and connection keep-alive do not apply
+   */
+  strictContentLength = false
+  chunkedEncoding = false
+  shouldKeepAlive = false
+  useChunkedEncodingByDefault = false
+
+  setTimeout(msecs: number, callback?: () => void) {
+    super.setTimeout(msecs, callback)
+    return this
+  }
+
+  setHeader(name: string, value: number | string | readonly string[]) {
+    super.setHeader(name, value)
+    return this
+  }
+
+  setHeaders(headers: Headers | Map<string, number | string | readonly string[]>) {
+    headers.forEach((value, name) => this.setHeader(name, value))
+    return this
+  }
+
+  appendHeader(name: string, value: string | readonly string[]) {
+    super.appendHeader(name, typeof value === 'string' ? value : [...value])
+    return this
+  }
+
+  writeHead(
+    statusCode: number,
+    statusMessage?: string | OutgoingHttpHeaders | readonly OutgoingHttpHeader[],
+    headers?: OutgoingHttpHeaders | readonly OutgoingHttpHeader[]
+  ) {
+    /**
+     * HTTP/2 has no status message. Only the headers are used
+     */
+    const outgoingHeaders = typeof statusMessage === 'string' ? headers : statusMessage
+    if (Array.isArray(outgoingHeaders)) {
+      return super.writeHead(statusCode, toHeadersObject(outgoingHeaders))
+    }
+
+    return super.writeHead(statusCode, outgoingHeaders as OutgoingHttpHeaders | undefined)
+  }
+
+  writeProcessing() {
+    this.stream.additionalHeaders({ ':status': 102 })
+  }
+
+  flushHeaders() {
+    if (!this.headersSent) {
+      this.writeHead(this.statusCode)
+    }
+  }
+
+  /**
+   * HTTP/2 streams are multiplexed over a single session socket
+   * and cannot be assigned or detached from it
+   */
+  assignSocket() {}
+  detachSocket() {}
+}
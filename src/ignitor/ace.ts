@@ -10,6 +10,21 @@
 import { Ignitor } from './main.js'
 import type { ApplicationService } from '../types.js'
 
+/**
+ * Returns the value of a flag from the command line arguments,
+ * before they are parsed by the ace kernel
+ */
+function getFlagValue(argv: string[], flagName: string) {
+  const index = argv.findIndex((value) => {
+    return value === `--${flagName}` || value.startsWith(`--${flagName}=`)
+  })
+  if (index === -1) {
+    return
+  }
+
+  return argv[index].includes('=') ? argv[index].slice(flagName.length + 3) : argv[index + 1]
+}
+
 /**
  * The Ace process is used to start the application in the
  * console environment.
@@ -26,6 +41,11 @@ export class AceProcess {
    */
   #configureCallback: (app: ApplicationService) => Promise<void> | void = () => {}
 
+  /**
+   * Find if the commands can be executed through the ace daemon
+   */
+  #useDaemon: boolean = false
+
   constructor(ignitor: Ignitor) {
     this.#ignitor = ignitor
   }
@@ -40,16 +60,21 @@ export class AceProcess {
   }
 
   /**
-   * Handles the command line arguments and executes
-   * the matching ace commands
+   * Enable the ace daemon. Once enabled, the "daemon:start" command
+   * can be used to start the daemon and the commands are executed
+   * through it (when running).
    */
-  async handle(argv: string[]) {
-    const app = this.#ignitor.createApp('console')
-    await app.init()
+  useDaemon(enabled: boolean = true): this {
+    this.#useDaemon = enabled
+    return this
+  }
 
+  /**
+   * Creates the ace kernel for the given command and configures
+   * it using the configure callback
+   */
+  async #createKernel(app: ApplicationService, commandName?: string) {
     const { createAceKernel } = await import('../../modules/ace/create_kernel.js')
-    const commandNameIndex = argv.findIndex((value) => !value.startsWith('-'))
-    const commandName = argv[commandNameIndex]
 
     const kernel = createAceKernel(app, commandName)
     app.container.bindValue('ace', kernel)
@@ -72,6 +97,62 @@ export class AceProcess {
     })
 
     await this.#configureCallback(app)
+    return kernel
+  }
+
+  /**
+   * Handles the command line arguments and executes
+   * the matching ace commands
+   */
+  async handle(argv: string[]) {
+    const commandNameIndex = argv.findIndex((value) => !value.startsWith('-'))
+    const commandName = argv[commandNameIndex]
+
+    /**
+     * The boot profiler is only enabled for the "inspect:boot"
+     * command, unless enabled using the ignitor options. The app
+     * is created for the environment mentioned using the
+     * "--environment" flag, so that its boot cycle is profiled.
+     */
+    const profiler = commandName === 'inspect:boot' ? await import('./boot_profiler.js') : undefined
+    const environment = profiler?.PROFILED_ENVIRONMENTS.find((one) => {
+      return one === getFlagValue(argv, 'environment')
+    })
+
+    const app = this.#ignitor.createApp(environment || 'console')
+    if (profiler) {
+      new profiler.BootProfiler().instrument(app)
+    }
+
+    /**
+     * Run the command through the ace daemon (when enabled and
+     * running), instead of booting the application in the
+     * current process
+     */
+    if (this.#useDaemon) {
+      const { AceDaemonClient, getDaemonSocketPath } =
+        await import('../../modules/ace/daemon_client.js')
+      const daemonExitCode = await new AceDaemonClient(getDaemonSocketPath(app.appRoot)).run(argv)
+      if (daemonExitCode !== undefined) {
+        process.exitCode = daemonExitCode
+        return
+      }
+    }
+
+    await app.init()
+    const kernel = await this.#createKernel(app, commandName)
+
+    /**
+     * The daemon creates a fresh kernel for every command it
+     * runs, once started using the "daemon:start" command
+     */
+    if (this.#useDaemon) {
+      const { AceDaemon } = await import('../../modules/ace/daemon.js')
+      app.container.bindValue(
+        AceDaemon,
+        new AceDaemon(app, (name) => this.#createKernel(app, name))
+      )
+    }
 
     /**
      * Handle command line args
@@ -79,11 +160,11 @@ export class AceProcess {
     await kernel.handle(argv)
 
     /**
-     * Terminate the app when the command does not want to
-     * hold a long running process
+     * Terminate the app when the command does not want to hold a
+     * long running process or it has terminated the app already
      */
     const mainCommand = kernel.getMainCommand()
-    if (!mainCommand || !mainCommand.staysAlive) {
+    if (!mainCommand || !mainCommand.staysAlive || app.isTerminated) {
       process.exitCode = kernel.exitCode
       await app.terminate()
     } else {
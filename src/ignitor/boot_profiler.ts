@@ -0,0 +1,323 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { performance } from 'node:perf_hooks'
+
+import debug from '../debug.js'
+import type { AppEnvironments } from '../../types/app.js'
+import type { ApplicationService, BootProfileEntry, BootProfileReport } from '../types.js'
+
+/**
+ * Provider lifecycle methods that are timed by the profiler
+ */
+const PROVIDER_METHODS = ['register', 'boot', 'start', 'ready'] as const
+
+/**
+ * Environments for which the boot cycle can be profiled using
+ * the "inspect:boot" command
+ */
+export const PROFILED_ENVIRONMENTS: AppEnvironments[] = ['console', 'web', 'test', 'repl', 'worker']
+
+/**
+ * Applications instrumented by the profiler
+ */
+const instrumentedApps: WeakSet<ApplicationService> = new WeakSet()
+
+/**
+ * The boot profiler records the time taken by the providers lifecycle
+ * methods, the preload files and the container bindings resolved
+ * while the application is getting ready.
+ *
+ * The recording stops once the application is ready.
+ */
+export class BootProfiler {
+  /**
+   * Reference point for the start time of all the entries
+   */
+  #origin = performance.now()
+
+  /**
+   * Time taken by the app to get ready
+   */
+  #duration?: number
+
+  /**
+   * Recorded entries
+   */
+  #entries: BootProfileEntry[] = []
+
+  /**
+   * Names of the bindings resolved by the container, mapped
+   * using the resolved value. Populated by the
+   * "container_binding:resolved" event
+   */
+  #resolvedBindings: Map<unknown, string> = new Map()
+
+  /**
+   * Names of the bindings for which the resolution time has
+   * been recorded already
+   */
+  #profiledBindings: Set<string> = new Set()
+
+  /**
+   * Find if the profiler is recording timings
+   */
+  get isRecording() {
+    return this.#duration === undefined
+  }
+
+  /**
+   * Returns the time elapsed since the profiler was created
+   */
+  #now() {
+    return performance.now() - this.#origin
+  }
+
+  /**
+   * Returns a human readable name for a container binding
+   */
+  #getBindingName(binding: unknown): string {
+    if (typeof binding === 'function') {
+      return binding.name || 'anonymous'
+    }
+    return String(binding)
+  }
+
+  /**
+   * Returns a human readable name for a preload file using the
+   * import expression of the lazy import function
+   */
+  #getPreloadName(file: () => Promise<any>): string {
+    const source = file.toString()
+    const match = source.match(/import\(\s*["'`](.+?)["'`]\s*\)/)
+    return match ? match[1] : source
+  }
+
+  /**
+   * Records an entry
+   */
+  #record(entry: Omit<BootProfileEntry, 'duration'>) {
+    if (this.isRecording) {
+      this.#entries.push({ ...entry, duration: this.#now() - entry.startTime })
+    }
+  }
+
+  /**
+   * Measures the time taken by the callback. Sync callbacks are
+   * measured synchronously, so that the sync lifecycle methods
+   * (like "register") remain sync.
+   */
+  #measure<T>(entry: Omit<BootProfileEntry, 'startTime' | 'duration'>, callback: () => T): T {
+    const startTime = this.#now()
+    const result = callback()
+
+    if (result instanceof Promise) {
+      return result.finally(() => this.#record({ ...entry, startTime })) as T
+    }
+
+    this.#record({ ...entry, startTime })
+    return result
+  }
+
+  /**
+   * Wraps the lifecycle methods of a provider instance
+   */
+  #profileProviderInstance(instance: Record<string, any>, name: string) {
+    for (const method of PROVIDER_METHODS) {
+      const fn = instance[method]
+      if (typeof fn === 'function') {
+        instance[method] = (...args: any[]) => {
+          return this.#measure({ kind: 'provider', name, phase: method }, () =>
+            fn.apply(instance, args)
+          )
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns a sub-class of the provider that wraps the lifecycle
+   * methods of its instances
+   */
+  #profileProvider(Provider: new (...args: any[]) => any) {
+    const profiler = this
+    const ProfiledProvider = class extends Provider {
+      constructor(...args: any[]) {
+        super(...args)
+        profiler.#profileProviderInstance(this, Provider.name)
+      }
+    }
+
+    Object.defineProperty(ProfiledProvider, 'name', { value: Provider.name })
+    return ProfiledProvider
+  }
+
+  /**
+   * Wraps the lazy imports of the providers and the preload files
+   * registered inside the "adonisrc.ts" file
+   */
+  #profileRcFile(app: ApplicationService) {
+    for (const provider of app.rcFile.providers) {
+      const file = provider.file
+      provider.file = async () => {
+        const startTime = this.#now()
+        const providerExports = await file()
+        if (typeof providerExports.default !== 'function') {
+          return providerExports
+        }
+
+        const Provider = providerExports.default
+        this.#record({ kind: 'provider', name: Provider.name, phase: 'import', startTime })
+        return { ...providerExports, default: this.#profileProvider(Provider) }
+      }
+    }
+
+    for (const preload of app.rcFile.preloads) {
+      const file = preload.file
+      const name = this.#getPreloadName(file)
+      preload.file = () => this.#measure({ kind: 'preload', name, phase: 'import' }, file)
+    }
+  }
+
+  /**
+   * Records the time taken by the container to resolve bindings. The
+   * first resolution of a binding is recorded, since the subsequent
+   * resolutions of singletons are served from the cache.
+   *
+   * The container events are forwarded to the emitter registered by
+   * the application (if any) and the original "make" method and the
+   * emitter are restored once the app is ready.
+   */
+  #profileContainer(app: ApplicationService) {
+    const container = app.container
+    const make = container.make
+    const useEmitter = container.useEmitter
+    let emitter: Parameters<typeof useEmitter>[0] | undefined
+
+    /**
+     * Track the emitter registered by the application, so that
+     * the events can be forwarded to it
+     */
+    Object.defineProperty(container, 'useEmitter', {
+      configurable: true,
+      writable: true,
+      value: (appEmitter: Parameters<typeof useEmitter>[0]) => {
+        emitter = appEmitter
+        return container
+      },
+    })
+
+    useEmitter.call(container, {
+      emit: (event: string | symbol, ...values: any[]) => {
+        const [data] = values as [{ binding: unknown; value: unknown }]
+        if (event === 'container_binding:resolved' && this.isRecording) {
+          this.#resolvedBindings.set(data.value, this.#getBindingName(data.binding))
+        }
+        return emitter?.emit(event, ...values)
+      },
+    })
+
+    Object.defineProperty(container, 'make', {
+      configurable: true,
+      writable: true,
+      value: async (binding: any, ...args: any[]) => {
+        if (!this.isRecording) {
+          return Reflect.apply(make, container, [binding, ...args])
+        }
+
+        const startTime = this.#now()
+        const value = await Reflect.apply(make, container, [binding, ...args])
+        const name = this.#resolvedBindings.get(value) || this.#getBindingName(binding)
+        this.#resolvedBindings.delete(value)
+
+        if (!this.#profiledBindings.has(name)) {
+          this.#profiledBindings.add(name)
+          this.#record({ kind: 'binding', name, phase: 'resolve', startTime })
+        }
+
+        return value
+      },
+    })
+
+    /**
+     * Restoring the application emitter, which unsets the emitter
+     * when the application has not registered one
+     */
+    return () => {
+      delete (container as Partial<typeof container>).make
+      delete (container as Partial<typeof container>).useEmitter
+      useEmitter.call(container, emitter!)
+    }
+  }
+
+  /**
+   * Instruments the application to record the boot timings. An
+   * application is instrumented only once and the subsequent calls
+   * are ignored.
+   */
+  instrument(app: ApplicationService) {
+    if (instrumentedApps.has(app)) {
+      return
+    }
+
+    let restoreContainer: (() => void) | undefined
+    instrumentedApps.add(app)
+
+    app.initiating(() => {
+      debug('profiling application boot')
+      restoreContainer = this.#profileContainer(app)
+      app.container.bindValue(BootProfiler, this)
+    })
+
+    app.booting(() => {
+      this.#profileRcFile(app)
+    })
+
+    app.ready(() => {
+      this.#duration = this.#now()
+      this.#resolvedBindings.clear()
+      restoreContainer?.()
+      debug('application ready in %dms', this.#duration)
+    })
+  }
+
+  /**
+   * Returns the report with the recorded entries sorted by
+   * their start time
+   */
+  getReport(): BootProfileReport {
+    return {
+      duration: this.#duration,
+      entries: [...this.#entries].sort((a, b) => a.startTime - b.startTime),
+    }
+  }
+
+  /**
+   * Returns the report in the Chrome trace event format. The output
+   * can be loaded inside "chrome://tracing" or Perfetto
+   */
+  toChromeTrace() {
+    const threads = { provider: 1, preload: 2, binding: 3 }
+    const toMicroseconds = (value: number) => Math.round(value * 1000)
+
+    return {
+      traceEvents: this.getReport().entries.map((entry) => {
+        return {
+          name: entry.kind === 'provider' ? `${entry.name}.${entry.phase}` : entry.name,
+          cat: entry.kind,
+          ph: 'X',
+          ts: toMicroseconds(entry.startTime),
+          dur: toMicroseconds(entry.duration),
+          pid: process.pid,
+          tid: threads[entry.kind],
+        }
+      }),
+    }
+  }
+}
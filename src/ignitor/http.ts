@@ -7,12 +7,37 @@
  * file that was distributed with this source code.
  */
 
-import type { Server as NodeHttpsServer } from 'node:https'
-import { IncomingMessage, ServerResponse, Server as NodeHttpServer, createServer } from 'node:http'
+import type { Socket } from 'node:net'
+import { rm } from 'node:fs/promises'
+import { availableParallelism } from 'node:os'
+import type { Http2Session } from 'node:http2'
+import cluster, { type Worker } from 'node:cluster'
+import type { IncomingMessage, ServerResponse } from 'node:http'
 
 import debug from '../debug.js'
 import { Ignitor } from './main.js'
-import type { ApplicationService, EmitterService, LoggerService } from '../types.js'
+import string from '../helpers/string.js'
+import {
+  startNodeServers,
+  getListenAddresses,
+  readTlsCredentials,
+  formatBoundAddress,
+  type NodeServer,
+  type NodeServerCallback,
+} from '../internal_helpers.js'
+import type { HttpServerProcessConfig, HttpServerShutdownConfig } from '../../types/http.js'
+import type {
+  EventsList,
+  LoggerService,
+  EmitterService,
+  HttpClusterOptions,
+  ApplicationService,
+} from '../types.js'
+
+/**
+ * Payload sent by a cluster worker after starting the HTTP server
+ */
+type ClusterReadyPayload = Omit<EventsList['http:server_ready'], 'duration'>
 
 /**
  * The HTTP server process is used to start the application in the
@@ -24,68 +49,208 @@ export class HttpServerProcess {
    */
   #ignitor: Ignitor
 
+  /**
+   * Number of requests the server is currently processing
+   */
+  #inFlightRequests: number = 0
+
+  /**
+   * A flag to know if the server has started draining
+   * connections
+   */
+  #isClosing: boolean = false
+
+  /**
+   * Cluster workers that have started the HTTP server. Only these
+   * workers are restarted after a crash, to avoid restarting
+   * workers that cannot boot in a loop.
+   */
+  #readyWorkers: WeakSet<Worker> = new WeakSet()
+
   constructor(ignitor: Ignitor) {
     this.#ignitor = ignitor
   }
 
   /**
-   * Calling this method closes the underlying HTTP server
+   * Open connections and HTTP/2 sessions of the server. They are
+   * closed during shutdown
+   */
+  #connections: Set<Socket> = new Set()
+  #sessions: Set<Http2Session> = new Set()
+
+  /**
+   * Tracks the open connections and the in-flight requests, so that
+   * the keep-alive connections can be closed as soon as they become
+   * idle during shutdown
    */
-  #close(nodeHttpServer: NodeHttpsServer | NodeHttpServer): Promise<void> {
-    return new Promise((resolve) => {
-      debug('closing http server process')
-      nodeHttpServer.close(() => resolve())
+  #trackConnections(nodeHttpServer: NodeServer) {
+    nodeHttpServer.on('connection', (socket: Socket) => {
+      this.#connections.add(socket)
+      socket.once('close', () => this.#connections.delete(socket))
+    })
+
+    nodeHttpServer.on('session', (session: Http2Session) => {
+      this.#sessions.add(session)
+      session.once('close', () => this.#sessions.delete(session))
+    })
+
+    nodeHttpServer.on('request', (req: IncomingMessage, res: ServerResponse) => {
+      this.#inFlightRequests++
+
+      /**
+       * Ask the client to not re-use the connection when the
+       * request is received after the shutdown has started.
+       * HTTP/2 sessions are closed using the GOAWAY frame
+       * instead.
+       */
+      if (this.#isClosing && req.httpVersionMajor < 2 && !res.headersSent) {
+        res.setHeader('connection', 'close')
+      }
+
+      res.once('close', () => {
+        this.#inFlightRequests--
+        if (this.#isClosing) {
+          setImmediate(() => this.#closeIdleConnections(nodeHttpServer))
+        }
+      })
     })
   }
 
   /**
-   * Monitors the app and the server to close the HTTP server when
+   * Closes the idle keep-alive connections and asks the HTTP/2
+   * clients to not open new streams
+   */
+  #closeIdleConnections(nodeHttpServer: NodeServer) {
+    if ('closeIdleConnections' in nodeHttpServer) {
+      nodeHttpServer.closeIdleConnections()
+    }
+    this.#sessions.forEach((session) => session.close())
+  }
+
+  /**
+   * Destroys all the open connections
+   */
+  #closeAllConnections() {
+    this.#sessions.forEach((session) => session.destroy())
+    this.#connections.forEach((socket) => socket.destroy())
+  }
+
+  /**
+   * Calling this method closes the underlying HTTP server by draining
+   * the existing connections. The server stops accepting new
+   * connections, idle keep-alive connections are closed right away
+   * and the remaining connections are closed as soon as their
+   * in-flight requests are finished.
+   *
+   * The connections are force closed when the in-flight requests do
+   * not finish within the configured shutdown timeout.
+   */
+  async #close(
+    nodeHttpServers: NodeServer[],
+    app: ApplicationService,
+    emitter: EmitterService
+  ): Promise<void> {
+    const closeTime = process.hrtime()
+    const config = app.config.get<Partial<HttpServerShutdownConfig>>('app.http.shutdown', {})
+    const timeout = string.milliseconds.parse(config.timeout ?? '10s')
+
+    this.#isClosing = true
+    await emitter.emit('http:server_closing', { timeout })
+
+    const forceClosed = await new Promise<boolean>((resolve) => {
+      debug('closing http server process, in-flight requests: %d', this.#inFlightRequests)
+
+      const forceCloseTimer = setTimeout(() => {
+        debug('force closing connections after "%d" milliseconds', timeout)
+        this.#closeAllConnections()
+        resolve(true)
+      }, timeout)
+
+      Promise.all(
+        nodeHttpServers.map((nodeHttpServer) => {
+          return new Promise<void>((closed) => {
+            nodeHttpServer.close(() => closed())
+            this.#closeIdleConnections(nodeHttpServer)
+          })
+        })
+      ).then(() => {
+        clearTimeout(forceCloseTimer)
+        resolve(false)
+      })
+    })
+
+    await emitter.emit('http:server_closed', {
+      duration: process.hrtime(closeTime),
+      forceClosed,
+    })
+  }
+
+  /**
+   * Monitors the app and the servers to close the HTTP servers when
    * either one of them goes down
    */
   #monitorAppAndServer(
-    nodeHttpServer: NodeHttpsServer | NodeHttpServer,
+    nodeHttpServers: NodeServer[],
     app: ApplicationService,
-    logger: LoggerService
+    logger: LoggerService,
+    emitter: EmitterService
   ) {
     /**
-     * Close the HTTP server when the application begins to
+     * Close the HTTP servers when the application begins to
      * terminate
      */
     app.terminating(async () => {
       debug('terminating signal received')
-      await this.#close(nodeHttpServer)
+      await this.#close(nodeHttpServers, app, emitter)
     })
 
     /**
-     * Terminate the app when the HTTP server crashes
+     * Terminate the app when one of the HTTP servers crashes
      */
-    nodeHttpServer.once('error', (error: NodeJS.ErrnoException) => {
-      debug('http server crashed with error "%O"', error)
-      logger.fatal({ err: error }, error.message)
-      process.exitCode = 1
-      app.terminate()
+    nodeHttpServers.forEach((nodeHttpServer) => {
+      nodeHttpServer.once('error', (error: NodeJS.ErrnoException) => {
+        debug('http server crashed with error "%O"', error)
+        logger.fatal({ err: error }, error.message)
+        process.exitCode = 1
+        app.terminate()
+      })
     })
   }
 
   /**
-   * Starts the http server a given host and port
+   * Re-loads the TLS certificates when the process receives the
+   * "SIGHUP" signal. The existing connections continue to use
+   * the old certificates.
    */
-  #listen(
-    nodeHttpServer: NodeHttpsServer | NodeHttpServer
-  ): Promise<{ port: number; host: string }> {
-    return new Promise((resolve, reject) => {
-      const host = process.env.HOST || '0.0.0.0'
-      const port = Number(process.env.PORT || '3333')
+  #reloadCertificatesOnSighup(
+    nodeHttpServers: NodeServer[],
+    app: ApplicationService,
+    logger: LoggerService
+  ) {
+    const config = app.config.get<Partial<HttpServerProcessConfig>>('app.http', {})
+    if (!config.tls) {
+      return
+    }
 
-      nodeHttpServer.listen(port, host)
-      nodeHttpServer.once('listening', () => {
-        debug('listening to http server, host :%s, port: %s', host, port)
-        resolve({ port, host })
-      })
+    const tlsConfig = config.tls
+    const reload = async () => {
+      debug('reloading TLS certificates')
+      try {
+        const credentials = await readTlsCredentials(app, tlsConfig)
+        nodeHttpServers.forEach((nodeHttpServer) => {
+          if ('setSecureContext' in nodeHttpServer) {
+            nodeHttpServer.setSecureContext(credentials)
+          }
+        })
+        logger.info('reloaded TLS certificates')
+      } catch (error) {
+        logger.error({ err: error }, 'unable to reload TLS certificates')
+      }
+    }
 
-      nodeHttpServer.once('error', (error: NodeJS.ErrnoException) => {
-        reject(error)
-      })
+    app.listen('SIGHUP', reload)
+    app.terminating(() => {
+      process.off('SIGHUP', reload)
     })
   }
 
@@ -97,7 +262,7 @@ export class HttpServerProcess {
     app: ApplicationService,
     logger: LoggerService,
     emitter: EmitterService,
-    payload: { host: string; port: number; duration: [number, number] }
+    payload: EventsList['http:server_ready']
   ) {
     /**
      * Notify parent process
@@ -107,7 +272,10 @@ export class HttpServerProcess {
     /**
      * Visual notification
      */
-    logger.info('started HTTP server on %s:%s', payload.host, payload.port)
+    logger.info(
+      'started HTTP server on %s',
+      payload.addresses.map((address) => formatBoundAddress(address)).join(', ')
+    )
 
     /**
      * Notify app
@@ -116,19 +284,12 @@ export class HttpServerProcess {
   }
 
   /**
-   * Start the HTTP server by wiring up the application
+   * Start the HTTP server by wiring up the application. A Node.js
+   * server is created for every address defined using the
+   * "http.listen" config.
    */
-  async start(
-    serverCallback?: (
-      handler: (req: IncomingMessage, res: ServerResponse) => any
-    ) => NodeHttpsServer | NodeHttpServer
-  ) {
+  async start(serverCallback?: NodeServerCallback) {
     const startTime = process.hrtime()
-
-    /**
-     * Method to create the HTTP server
-     */
-    const createHTTPServer = serverCallback || createServer
     const app = this.#ignitor.createApp('web')
 
     await app.init()
@@ -140,33 +301,218 @@ export class HttpServerProcess {
       const server = await app.container.make('server')
       await server.boot()
 
-      /**
-       * Create Node.js HTTP server instance and share it with the
-       * AdonisJS HTTP server
-       */
-      const httpServer = createHTTPServer(server.handle.bind(server))
-      server.setNodeServer(httpServer)
-
       const logger = await app.container.make('logger')
       const emitter = await app.container.make('emitter')
 
       /**
-       * Start the server by listening on a port of host
+       * Create a Node.js server for every address and start listening
        */
-      const payload = await this.#listen(httpServer)
+      const { servers: httpServers, addresses: boundAddresses } = await startNodeServers(
+        app,
+        server,
+        getListenAddresses(app),
+        {
+          serverCallback,
+          onServerCreated: (httpServer) => this.#trackConnections(httpServer),
+        }
+      )
 
       /**
-       * Notify
+       * Notify. The host and the port are of the first address. For
+       * a unix socket, the host is the socket path.
        */
+      const [firstAddress] = boundAddresses
       this.#notifyServerHasStarted(app, logger, emitter, {
-        ...payload,
+        host: 'path' in firstAddress ? firstAddress.path : firstAddress.host,
+        port: 'path' in firstAddress ? 0 : firstAddress.port,
+        addresses: boundAddresses,
         duration: process.hrtime(startTime),
       })
 
       /**
-       * Monitor app and the server (after the server is listening)
+       * Monitor app and the servers (after the servers are listening)
        */
-      this.#monitorAppAndServer(httpServer, app, logger)
+      this.#monitorAppAndServer(httpServers, app, logger, emitter)
+      this.#reloadCertificatesOnSighup(httpServers, app, logger)
+    })
+  }
+
+  /**
+   * Forks a new cluster worker and returns a promise that resolves
+   * once the worker has started the HTTP server. The promise is
+   * rejected when the worker exits before becoming ready.
+   */
+  #forkWorker(
+    logger: LoggerService,
+    emitter: EmitterService
+  ): { worker: Worker; ready: Promise<ClusterReadyPayload> } {
+    const worker = cluster.fork()
+
+    const ready = new Promise<ClusterReadyPayload>((resolve, reject) => {
+      const onMessage = (message: any) => {
+        if (message && message.isAdonisJS === true && message.environment === 'web') {
+          worker.off('message', onMessage)
+          worker.off('exit', onExit)
+          this.#readyWorkers.add(worker)
+          resolve({ host: message.host, port: message.port, addresses: message.addresses })
+        }
+      }
+
+      const onExit = (code: number | null) => {
+        worker.off('message', onMessage)
+        reject(new Error(`Cluster worker ${worker.id} exited with code "${code}" before starting`))
+      }
+
+      worker.on('message', onMessage)
+      worker.once('exit', onExit)
+    })
+
+    worker.once('online', () => {
+      debug('cluster worker online, id: %d, pid: %d', worker.id, worker.process.pid)
+      logger.info('cluster worker %d online (pid: %d)', worker.id, worker.process.pid)
+      emitter.emit('cluster:worker_online', { id: worker.id, pid: worker.process.pid! })
+    })
+
+    return { worker, ready }
+  }
+
+  /**
+   * Monitors the cluster workers to restart the crashed workers and
+   * forwards the termination to the workers when the primary
+   * process begins to terminate
+   */
+  #monitorWorkers(app: ApplicationService, logger: LoggerService, emitter: EmitterService) {
+    let isTerminating = false
+
+    cluster.on('exit', (worker, code, signal) => {
+      const restarting =
+        !isTerminating && !worker.exitedAfterDisconnect && this.#readyWorkers.has(worker)
+      debug('cluster worker exited, id: %d, code: %s, signal: %s', worker.id, code, signal)
+      emitter.emit('cluster:worker_exit', {
+        id: worker.id,
+        pid: worker.process.pid!,
+        code,
+        signal,
+        restarting,
+      })
+
+      if (!restarting) {
+        return
+      }
+
+      logger.warn('cluster worker %d exited with code "%s", restarting', worker.id, signal || code)
+      this.#forkWorker(logger, emitter).ready.catch((error) => {
+        logger.error({ err: error }, error.message)
+      })
+    })
+
+    /**
+     * Forward the "SIGHUP" signal to the workers, so that they can
+     * reload the TLS certificates
+     */
+    const forwardSighup = () => {
+      debug('forwarding SIGHUP to cluster workers')
+      Object.values(cluster.workers || {}).forEach((worker) => worker?.process.kill('SIGHUP'))
+    }
+    app.listenIf(!!app.config.get('app.http.tls', undefined), 'SIGHUP', forwardSighup)
+
+    /**
+     * Forward the termination to the workers and wait for them to
+     * exit
+     */
+    app.terminating(async () => {
+      isTerminating = true
+      process.off('SIGHUP', forwardSighup)
+      debug('terminating cluster workers')
+
+      const workers = Object.values(cluster.workers || {}).filter((worker) => !!worker)
+      await Promise.all(
+        workers.map((worker) => {
+          return new Promise<void>((resolve) => {
+            if (worker.isDead()) {
+              return resolve()
+            }
+            worker.once('exit', () => resolve())
+            worker.process.kill('SIGTERM')
+          })
+        })
+      )
     })
   }
+
+  /**
+   * Start the HTTP server in cluster mode. The primary process forks
+   * the workers, restarts the crashed workers and forwards the
+   * termination to them. Each worker starts the HTTP server on
+   * the same host and port.
+   *
+   * The primary process only boots the app to use the logger and the
+   * emitter. It is never started, therefore the preload files are
+   * not imported and the cluster events are only received by the
+   * listeners registered by the service providers.
+   *
+   * Calling this method from within a worker process is the same
+   * as calling the "start" method.
+   */
+  async cluster(options: HttpClusterOptions = {}, serverCallback?: NodeServerCallback) {
+    if (cluster.isWorker) {
+      await this.start(serverCallback)
+
+      /**
+       * Disconnect from the primary process once the app begins to
+       * terminate. Otherwise, the IPC channel keeps the worker
+       * process alive.
+       */
+      this.#ignitor.getApp()!.terminating(() => {
+        debug('disconnecting cluster worker')
+        cluster.worker!.disconnect()
+      })
+      return
+    }
+
+    const startTime = process.hrtime()
+    const workersCount = options.workers ?? availableParallelism()
+    const app = this.#ignitor.createApp('web')
+
+    await app.init()
+    await app.boot()
+
+    const logger = await app.container.make('logger')
+    const emitter = await app.container.make('emitter')
+
+    /**
+     * Remove the unix sockets left behind by a previous process,
+     * since the workers do not remove them
+     */
+    for (let address of getListenAddresses(app)) {
+      if ('path' in address) {
+        await rm(address.path, { force: true })
+      }
+    }
+
+    debug('forking %d cluster workers', workersCount)
+    const workers = Array.from({ length: workersCount }, () => this.#forkWorker(logger, emitter))
+
+    /**
+     * Kill the forked workers when one of them fails to start
+     */
+    let payload: ClusterReadyPayload
+    try {
+      const readyPayloads = await Promise.all(workers.map(({ ready }) => ready))
+      payload = readyPayloads[0]
+    } catch (error) {
+      workers.forEach(({ worker }) => !worker.isDead() && worker.process.kill('SIGTERM'))
+      throw error
+    }
+
+    const duration = process.hrtime(startTime)
+    app.notify({ isAdonisJS: true, environment: 'web', ...payload, duration })
+    logger.info(
+      'started HTTP server cluster with %d workers on %s',
+      workersCount,
+      payload.addresses.map((address) => formatBoundAddress(address)).join(', ')
+    )
+
+    this.#monitorWorkers(app, logger, emitter)
+  }
 }
@@ -9,11 +9,15 @@
 
 import debug from '../debug.js'
 import { AceProcess } from './ace.js'
+import { WorkerProcess } from './worker.js'
+import { BootProfiler } from './boot_profiler.js'
 import { TestRunnerProcess } from './test.js'
 import { HttpServerProcess } from './http.js'
+import string from '../helpers/string.js'
 import { setApp } from '../../services/app.js'
 import { Application } from '../../modules/app.js'
 import type { AppEnvironments } from '../../types/app.js'
+import type { AppEnvironments as KnownAppEnvironments } from '@adonisjs/application/types'
 import type { ApplicationService, IgnitorOptions } from '../types.js'
 
 /**
@@ -58,6 +62,124 @@ export class Ignitor {
     this.#tapCallbacks.forEach((tapCallback) => tapCallback(app))
   }
 
+  /**
+   * Terminates the app when the process receives one of the
+   * termination signals. Receiving "SIGINT" while the app is
+   * terminating exits the process right away, even when "SIGINT"
+   * is not one of the termination signals.
+   */
+  #listenForTerminationSignals(app: ApplicationService) {
+    const signals = this.#options.terminationSignals || []
+    let isTerminating = false
+
+    const forceExit = () => {
+      debug('force exiting process, reason: received SIGINT while terminating')
+      process.exit(1)
+    }
+
+    const onSignal = async (signal: NodeJS.Signals) => {
+      if (isTerminating) {
+        return
+      }
+
+      debug('received "%s", terminating app', signal)
+      isTerminating = true
+
+      process.on('SIGINT', forceExit)
+      try {
+        await this.#terminateApp(app)
+      } finally {
+        process.off('SIGINT', forceExit)
+      }
+    }
+
+    signals.forEach((signal) => app.listen(signal, onSignal))
+  }
+
+  /**
+   * Terminates the app and exits the process forcefully when the
+   * app fails to terminate within the configured timeout.
+   *
+   * The timer is not unref'ed, so that a terminating hook waiting
+   * on nothing cannot let the process exit with a zero exit code.
+   * Instead, the timer is cleared once the app has been terminated.
+   */
+  async #terminateApp(app: ApplicationService) {
+    const forceExitTimeout = this.#options.forceExitTimeout
+    const timeout =
+      forceExitTimeout === undefined ? undefined : string.milliseconds.parse(forceExitTimeout)
+
+    const timer =
+      timeout === undefined
+        ? undefined
+        : setTimeout(() => {
+            debug('force exiting process, reason: app did not terminate in %dms', timeout)
+            process.exit(1)
+          }, timeout)
+
+    try {
+      await app.terminate()
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * Reports an uncaught error using the logger in production and
+   * pretty prints it using youch otherwise
+   */
+  async #reportUncaughtError(app: ApplicationService, error: unknown, message: string) {
+    if (app.inProduction && app.container?.hasBinding('logger')) {
+      const logger = await app.container.make('logger')
+      logger.fatal({ err: error }, message)
+      return
+    }
+
+    const { prettyPrintError } = await import('../../index.js')
+    await prettyPrintError(error)
+  }
+
+  /**
+   * Installs process-wide handlers for uncaught exceptions and
+   * unhandled rejections. The handlers report the error, terminate
+   * the app and exit the process with a non-zero exit code.
+   *
+   * The handlers are removed when the app is terminating, so that
+   * errors raised during termination crash the process right away.
+   */
+  #listenForUncaughtErrors(app: ApplicationService) {
+    if (!this.#options.handleUncaughtErrors) {
+      return
+    }
+
+    const createHandler = (message: string) => {
+      return async (error: unknown) => {
+        debug('%s, terminating app', message)
+        process.exitCode = 1
+
+        try {
+          await this.#reportUncaughtError(app, error, message)
+        } catch (reportError) {
+          console.error(error)
+          console.error(reportError)
+        }
+
+        await this.#terminateApp(app)
+        process.exit(1)
+      }
+    }
+
+    const onUncaughtException = createHandler('uncaught exception')
+    const onUnhandledRejection = createHandler('unhandled rejection')
+
+    process.on('uncaughtException', onUncaughtException)
+    process.on('unhandledRejection', onUnhandledRejection)
+    app.terminating(() => {
+      process.off('uncaughtException', onUncaughtException)
+      process.off('unhandledRejection', onUnhandledRejection)
+    })
+  }
+
   /**
    * Get access to the application instance created
    * by either the http server process or the ace
@@ -72,9 +194,24 @@ export class Ignitor {
    */
   createApp(environment: AppEnvironments) {
     debug('creating application instance')
-    this.#app = new Application(this.#appRoot, { environment, importer: this.#options.importer })
+
+    /**
+     * The application package does not know about the "worker"
+     * environment. It only matches the environment against the
+     * rcFile entries, which include it for the worker process
+     */
+    this.#app = new Application(this.#appRoot, {
+      environment: environment as KnownAppEnvironments,
+      importer: this.#options.importer,
+    })
 
     setApp(this.#app)
+    if (this.#options.profileBoot) {
+      new BootProfiler().instrument(this.#app)
+    }
+
+    this.#listenForTerminationSignals(this.#app)
+    this.#listenForUncaughtErrors(this.#app)
     this.#runTapCallbacks(this.#app)
     return this.#app
   }
@@ -108,6 +245,13 @@ export class Ignitor {
     return new TestRunnerProcess(this)
   }
 
+  /**
+   * Get an instance of the WorkerProcess class
+   */
+  worker() {
+    return new WorkerProcess(this)
+  }
+
   /**
    * Terminates the app by calling the "app.terminate"
    * method
@@ -0,0 +1,106 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import debug from '../debug.js'
+import { Ignitor } from './main.js'
+import type { ApplicationService } from '../types.js'
+import type { AppEnvironments } from '../../types/app.js'
+
+/**
+ * The callback executed by the worker process. The callback may
+ * return a function to drain the work in progress when the app
+ * is terminating.
+ */
+type WorkerCallback = (
+  app: ApplicationService
+) => void | (() => Promise<void> | void) | Promise<void | (() => Promise<void> | void)>
+
+/**
+ * The worker process is used to start the application in the worker
+ * environment. It is meant for long-running processes that do not
+ * serve HTTP requests. For example: Queue consumers and schedulers.
+ */
+export class WorkerProcess {
+  /**
+   * Ignitor reference
+   */
+  #ignitor: Ignitor
+
+  constructor(ignitor: Ignitor) {
+    this.#ignitor = ignitor
+  }
+
+  /**
+   * The providers and preload files registered without an explicit
+   * environment are loaded in all the known environments. Since the
+   * "worker" environment is not known to the rcFile parser, we
+   * include it by hand.
+   */
+  #includeWorkerEnvironment(app: ApplicationService) {
+    const raw = app.rcFile.raw || {}
+    const entries = [
+      { normalized: app.rcFile.providers, raw: raw.providers || [] },
+      { normalized: app.rcFile.preloads, raw: raw.preloads || [] },
+    ]
+
+    entries.forEach(({ normalized, raw: rawEntries }) => {
+      normalized.forEach((entry, index) => {
+        const rawEntry = rawEntries[index]
+        if (typeof rawEntry === 'function' || (rawEntry && !rawEntry.environment)) {
+          const environments: AppEnvironments[] = entry.environment
+          environments.push('worker')
+        }
+      })
+    })
+  }
+
+  /**
+   * Starts the worker process by running the callback after booting
+   * the app. The process is kept alive until the app is terminated.
+   */
+  async run(callback: WorkerCallback) {
+    const startTime = process.hrtime()
+    const app = this.#ignitor.createApp('worker')
+
+    await app.init()
+    this.#includeWorkerEnvironment(app)
+    await app.boot()
+    await app.start(async () => {
+      /**
+       * Keep the process alive until the app is terminated, since
+       * the callback may not hold any handles of its own. The
+       * interval is cleared even when the app is terminated
+       * while the callback is running
+       */
+      let drain: Awaited<ReturnType<WorkerCallback>>
+      const keepAlive = setInterval(() => {}, 2 ** 31 - 1)
+
+      app.terminating(async () => {
+        debug('terminating worker process')
+        clearInterval(keepAlive)
+        if (typeof drain === 'function') {
+          await drain()
+        }
+      })
+
+      try {
+        drain = await callback(app)
+      } catch (error) {
+        clearInterval(keepAlive)
+        throw error
+      }
+
+      const logger = await app.container.make('logger')
+      const duration = process.hrtime(startTime)
+
+      app.notify({ isAdonisJS: true, environment: 'worker', duration })
+      logger.info('started worker process')
+    })
+  }
+}
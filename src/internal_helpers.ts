@@ -7,9 +7,63 @@
  * file that was distributed with this source code.
  */
 
+import cluster from 'node:cluster'
+import { isAbsolute } from 'node:path'
 import { existsSync } from 'node:fs'
-import { ApplicationService } from './types.js'
+import type { AddressInfo } from 'node:net'
+import { chmod, readFile, rm } from 'node:fs/promises'
+import { RuntimeException } from '@poppinss/utils'
 import { RcFile } from '@adonisjs/application/types'
+import { createSecureServer, type Http2SecureServer } from 'node:http2'
+import { createServer as createHttpsServer, type Server as NodeHttpsServer } from 'node:https'
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+  type Server as NodeHttpServer,
+} from 'node:http'
+
+import debug from './debug.js'
+import { ApplicationService, HttpServerService } from './types.js'
+import { Http2Request, Http2Response } from './http2_compat.js'
+import type {
+  HttpServerTlsConfig,
+  HttpServerBoundAddress,
+  HttpServerListenAddress,
+  HttpServerProcessConfig,
+} from '../types/http.js'
+
+/**
+ * Node.js servers that can be created for the AdonisJS HTTP server
+ */
+export type NodeServer =
+  | NodeHttpServer
+  | NodeHttpsServer
+  | Http2SecureServer<
+      typeof IncomingMessage,
+      typeof ServerResponse,
+      typeof Http2Request,
+      typeof Http2Response
+    >
+
+/**
+ * Request handler of the AdonisJS HTTP server
+ */
+export type NodeServerRequestHandler = (req: IncomingMessage, res: ServerResponse) => any
+
+/**
+ * Callback to create the Node.js server for the AdonisJS HTTP server
+ */
+export type NodeServerCallback = (
+  handler: NodeServerRequestHandler
+) => NodeHttpsServer | NodeHttpServer
+
+/**
+ * Listen address with defaults applied
+ */
+export type ListenAddress =
+  | { host: string; port: number; ipv6Only?: boolean }
+  | { path: string; permissions?: number | string }
 
 /**
  * Imports assembler optionally
@@ -75,3 +129,189 @@ export async function detectAssetsBundler(
     }
   }
 }
+
+/**
+ * Reads the TLS credentials from the files defined within the
+ * TLS config. The paths are resolved from the application root
+ */
+export async function readTlsCredentials(app: ApplicationService, config: HttpServerTlsConfig) {
+  const [key, cert, ca] = await Promise.all([
+    readFile(app.makePath(config.key)),
+    readFile(app.makePath(config.cert)),
+    config.ca ? readFile(app.makePath(config.ca)) : undefined,
+  ])
+
+  return { key, cert, ca, passphrase: config.passphrase }
+}
+
+/**
+ * Creates the Node.js server using the "http" config defined within
+ * the "config/app.ts" file. An HTTPS server is created when TLS is
+ * configured and an HTTP/2 server (with HTTP/1.1 fallback) when
+ * "http2" is enabled as well.
+ */
+export async function createNodeServer(
+  app: ApplicationService,
+  handler: NodeServerRequestHandler
+): Promise<NodeServer> {
+  const config = app.config.get<Partial<HttpServerProcessConfig>>('app.http', {})
+
+  if (!config.tls) {
+    if (config.http2) {
+      throw new RuntimeException(
+        'Cannot enable HTTP/2 without TLS. Define the "http.tls" config inside "config/app.ts" file'
+      )
+    }
+    return createServer(handler)
+  }
+
+  const credentials = await readTlsCredentials(app, config.tls)
+  if (config.http2) {
+    return createSecureServer(
+      {
+        ...credentials,
+        allowHTTP1: true,
+        Http2ServerRequest: Http2Request,
+        Http2ServerResponse: Http2Response,
+      },
+      handler
+    )
+  }
+
+  return createHttpsServer(credentials, handler)
+}
+
+/**
+ * Returns the addresses the HTTP server should listen on. The TCP
+ * addresses use the "HOST" and the "PORT" environment variables
+ * for the missing host and port.
+ */
+export function getListenAddresses(app: ApplicationService): ListenAddress[] {
+  const defaults = {
+    host: process.env.HOST || '0.0.0.0',
+    port: Number(process.env.PORT || '3333'),
+  }
+
+  const addresses = app.config.get<HttpServerListenAddress[] | undefined>('app.http.listen', [])
+  if (!addresses || !addresses.length) {
+    return [defaults]
+  }
+
+  return addresses.map((address) => {
+    if ('path' in address) {
+      return {
+        ...address,
+        path: isAbsolute(address.path) ? address.path : app.makePath(address.path),
+      }
+    }
+    return { ...address, host: address.host ?? defaults.host, port: address.port ?? defaults.port }
+  })
+}
+
+/**
+ * Formats an address the HTTP server is bound to for display
+ */
+export function formatBoundAddress(address: HttpServerBoundAddress) {
+  if ('path' in address) {
+    return `unix:${address.path}`
+  }
+  return address.host.includes(':')
+    ? `[${address.host}]:${address.port}`
+    : `${address.host}:${address.port}`
+}
+
+/**
+ * Starts a Node.js server on a given TCP address or a unix
+ * domain socket
+ */
+async function listenNodeServer(
+  nodeHttpServer: NodeServer,
+  address: ListenAddress
+): Promise<HttpServerBoundAddress> {
+  /**
+   * Remove the socket file left behind by a previous process. The
+   * workers in cluster mode share the socket created by the
+   * primary process.
+   */
+  if ('path' in address && cluster.isPrimary) {
+    await rm(address.path, { force: true })
+  }
+
+  return new Promise((resolve, reject) => {
+    nodeHttpServer.once('listening', async () => {
+      if ('path' in address) {
+        debug('listening to http server, socket: %s', address.path)
+        try {
+          if (address.permissions !== undefined) {
+            await chmod(address.path, address.permissions)
+          }
+          resolve({ path: address.path })
+        } catch (error) {
+          reject(error)
+        }
+        return
+      }
+
+      const { port } = nodeHttpServer.address() as AddressInfo
+      debug('listening to http server, host :%s, port: %s', address.host, port)
+      resolve({ host: address.host, port })
+    })
+
+    nodeHttpServer.once('error', (error: NodeJS.ErrnoException) => {
+      reject(error)
+    })
+
+    if ('path' in address) {
+      nodeHttpServer.listen(address.path)
+    } else {
+      nodeHttpServer.listen({
+        host: address.host,
+        port: address.port,
+        ipv6Only: address.ipv6Only,
+      })
+    }
+  })
+}
+
+/**
+ * Creates a Node.js server for every address and shares the first
+ * one with the AdonisJS HTTP server. The servers are created using
+ * the "http" config, unless the "serverCallback" is defined.
+ *
+ * The servers that have started listening are closed when one
+ * of them fails to listen.
+ */
+export async function startNodeServers(
+  app: ApplicationService,
+  server: HttpServerService,
+  addresses: ListenAddress[],
+  options: {
+    serverCallback?: NodeServerCallback
+    onServerCreated?: (nodeHttpServer: NodeServer) => void
+  } = {}
+): Promise<{ servers: NodeServer[]; addresses: HttpServerBoundAddress[] }> {
+  const handler = server.handle.bind(server)
+  const servers: NodeServer[] = []
+  for (let index = 0; index < addresses.length; index++) {
+    const nodeHttpServer = options.serverCallback
+      ? options.serverCallback(handler)
+      : await createNodeServer(app, handler)
+
+    options.onServerCreated?.(nodeHttpServer)
+    servers.push(nodeHttpServer)
+  }
+
+  server.setNodeServer(servers[0] as NodeHttpsServer | NodeHttpServer)
+
+  try {
+    return {
+      servers,
+      addresses: await Promise.all(
+        servers.map((nodeHttpServer, index) => listenNodeServer(nodeHttpServer, addresses[index]))
+      ),
+    }
+  } catch (error) {
+    servers.forEach((nodeHttpServer) => nodeHttpServer.listening && nodeHttpServer.close())
+    throw error
+  }
+}
@@ -7,10 +7,51 @@
  * file that was distributed with this source code.
  */
 
-import debug from '../debug.js'
 import type { TestUtils } from './main.js'
-import type { Server as NodeHttpsServer } from 'node:https'
-import { IncomingMessage, ServerResponse, Server as NodeHttpServer, createServer } from 'node:http'
+import type { HttpServerBoundAddress } from '../../types/http.js'
+import {
+  startNodeServers,
+  getListenAddresses,
+  type NodeServer,
+  type ListenAddress,
+  type NodeServerCallback,
+} from '../internal_helpers.js'
+
+/**
+ * Options accepted by the HTTP server utils
+ */
+export type HttpServerUtilsOptions = {
+  /**
+   * Port to listen on. It overrides the "PORT" environment variable
+   * and the port of the TCP addresses from the "http.listen"
+   * config. Use 0 to bind to an ephemeral port.
+   */
+  port?: number
+}
+
+/**
+ * The started HTTP server returned by the "start" method. The value
+ * itself is a function to close the server, so that it can be used
+ * as a cleanup function by the tests runner hooks.
+ */
+export type StartedHttpServer = (() => Promise<void>) & {
+  /**
+   * URL of the first TCP address the server is bound to. For
+   * unix sockets, the URL is "unix:<socket-path>"
+   */
+  url: string
+
+  /**
+   * Port of the first TCP address the server is bound to.
+   * Set to 0 when listening on unix sockets only
+   */
+  port: number
+
+  /**
+   * Close the HTTP server
+   */
+  close(): Promise<void>
+}
 
 /**
  * Http server utils are used to start the AdonisJS HTTP server
@@ -18,62 +59,104 @@ import { IncomingMessage, ServerResponse, Server as NodeHttpServer, createServer
  */
 export class HttpServerUtils {
   #utils: TestUtils
+  #options: HttpServerUtilsOptions
 
-  constructor(utils: TestUtils) {
+  constructor(utils: TestUtils, options: HttpServerUtilsOptions = {}) {
     this.#utils = utils
+    this.#options = options
   }
 
   /**
-   * Starts the http server a given host and port
+   * Returns the addresses to listen on with the port
+   * override applied
    */
-  #listen(
-    nodeHttpServer: NodeHttpsServer | NodeHttpServer
-  ): Promise<{ port: number; host: string }> {
-    return new Promise((resolve, reject) => {
-      const host = process.env.HOST || '0.0.0.0'
-      const port = Number(process.env.PORT || '3333')
-
-      nodeHttpServer.listen(port, host)
-      nodeHttpServer.once('listening', () => {
-        debug('listening to utils http server, host :%s, port: %s', host, port)
-        resolve({ port, host })
-      })
+  #getListenAddresses(): ListenAddress[] {
+    const port = this.#options.port
+    return getListenAddresses(this.#utils.app).map((address) => {
+      return 'path' in address || port === undefined ? address : { ...address, port }
+    })
+  }
 
-      nodeHttpServer.once('error', (error: NodeJS.ErrnoException) => {
-        reject(error)
+  /**
+   * Creates the URL for an address the server is bound to
+   */
+  #createURL(address: HttpServerBoundAddress) {
+    if ('path' in address) {
+      return `unix:${address.path}`
+    }
+
+    const protocol = this.#utils.app.config.get('app.http.tls', undefined) ? 'https' : 'http'
+    const host = ['0.0.0.0', '::'].includes(address.host) ? 'localhost' : address.host
+    return `${protocol}://${host.includes(':') ? `[${host}]` : host}:${address.port}`
+  }
+
+  /**
+   * Shares the ephemeral port and the host with the Japa API client
+   * using the environment variables. The previous values are
+   * restored by the returned function.
+   */
+  #shareEphemeralPort(address: HttpServerBoundAddress) {
+    if (this.#options.port !== 0 || 'path' in address) {
+      return () => {}
+    }
+
+    const { HOST: host, PORT: port } = process.env
+    process.env.PORT = String(address.port)
+    process.env.HOST = host || 'localhost'
+
+    return () => {
+      port === undefined ? delete process.env.PORT : (process.env.PORT = port)
+      host === undefined ? delete process.env.HOST : (process.env.HOST = host)
+    }
+  }
+
+  /**
+   * Closes the http server
+   */
+  #close(nodeHttpServer: NodeServer): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      nodeHttpServer.close((error) => {
+        if (error) {
+          reject(error)
+        } else {
+          resolve()
+        }
       })
     })
   }
 
   /**
    * Testing hook to start the HTTP server to listen for new request.
-   * The return value is a function to close the HTTP server.
+   * The return value is a function to close the HTTP server, along
+   * with the URL and the port the server is bound to.
+   *
+   * The servers are created and bound to the addresses using the
+   * "http" config defined inside the "config/app.ts" file. The
+   * callback, when defined, is used to create the servers.
    */
-  async start(
-    serverCallback?: (
-      handler: (req: IncomingMessage, res: ServerResponse) => any
-    ) => NodeHttpsServer | NodeHttpServer
-  ): Promise<() => Promise<void>> {
-    const createHTTPServer = serverCallback || createServer
-
+  async start(serverCallback?: NodeServerCallback): Promise<StartedHttpServer> {
     const server = await this.#utils.app.container.make('server')
     await server.boot()
 
-    const httpServer = createHTTPServer(server.handle.bind(server))
-    server.setNodeServer(httpServer)
+    const { servers: httpServers, addresses: boundAddresses } = await startNodeServers(
+      this.#utils.app,
+      server,
+      this.#getListenAddresses(),
+      { serverCallback }
+    )
 
-    await this.#listen(httpServer)
+    const address = boundAddresses.find((bound) => !('path' in bound)) || boundAddresses[0]
+    const restoreEnv = this.#shareEphemeralPort(address)
 
-    return () => {
-      return new Promise<void>((resolve, reject) => {
-        httpServer.close((error) => {
-          if (error) {
-            reject(error)
-          } else {
-            resolve()
-          }
-        })
-      })
+    const close = async () => {
+      await Promise.all(httpServers.map((httpServer) => this.#close(httpServer)))
+      restoreEnv()
     }
+
+    return Object.assign(close, {
+      url: this.#createURL(address),
+      port: 'path' in address ? 0 : address.port,
+      close,
+    })
   }
 }
@@ -11,7 +11,7 @@ import { Socket } from 'node:net'
 import Macroable from '@poppinss/macroable'
 import { IncomingMessage, ServerResponse } from 'node:http'
 
-import { HttpServerUtils } from './http.js'
+import { HttpServerUtils, type HttpServerUtilsOptions } from './http.js'
 import type { ApplicationService } from '../types.js'
 import { CookieClient, type HttpContext } from '../../modules/http/main.js'
 
@@ -50,8 +50,8 @@ export class TestUtils extends Macroable {
    * Returns an instance of the HTTP server testing
    * utils
    */
-  httpServer() {
-    return new HttpServerUtils(this)
+  httpServer(options?: HttpServerUtilsOptions) {
+    return new HttpServerUtils(this, options)
   }
 
   /**
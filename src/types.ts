@@ -13,7 +13,7 @@ import type { Emitter } from '../modules/events.js'
 import type { Kernel } from '../modules/ace/main.js'
 import type { Application } from '../modules/app.js'
 import type { TestUtils } from './test_utils/main.js'
-import type { HttpServerEvents } from '../types/http.js'
+import type { HttpServerEvents, HttpServerBoundAddress } from '../types/http.js'
 import type { Dumper } from '../modules/dumper/dumper.js'
 import type { LoggerManager } from '../modules/logger.js'
 import type { HashManager } from '../modules/hash/main.js'
@@ -36,7 +36,85 @@ export type ConfigProvider<T> = {
 /**
  * Options accepted by ignitor
  */
-export type IgnitorOptions = { importer?: Importer }
+export type IgnitorOptions = {
+  importer?: Importer
+
+  /**
+   * Process signals that terminate the app gracefully by calling
+   * the "app.terminate" method. Receiving "SIGINT" while the app is
+   * terminating exits the process right away, even when "SIGINT" is
+   * not one of the termination signals.
+   */
+  terminationSignals?: NodeJS.Signals[]
+
+  /**
+   * Time after which the process is exited with a non-zero exit
+   * code, when the app fails to terminate after receiving one of
+   * the termination signals. The value can be a number in
+   * milliseconds or a string expression like "30s".
+   */
+  forceExitTimeout?: string | number
+
+  /**
+   * Install process-wide "uncaughtException" and "unhandledRejection"
+   * handlers. The errors are reported using the logger in production
+   * and pretty printed otherwise. Afterwards, the app is terminated
+   * and the process exits with a non-zero exit code.
+   */
+  handleUncaughtErrors?: boolean
+
+  /**
+   * Record the time taken by the providers, the preload files and
+   * the container bindings to boot the application. The report is
+   * displayed by the "inspect:boot" command, which enables the
+   * profiler for itself.
+   */
+  profileBoot?: boolean
+}
+
+/**
+ * Options accepted by the HTTP server process to start
+ * the server in cluster mode
+ */
+export type HttpClusterOptions = {
+  /**
+   * Number of workers to fork. Defaults to the available
+   * parallelism of the machine
+   */
+  workers?: number
+}
+
+/**
+ * A timing recorded by the boot profiler for a provider lifecycle
+ * method, a preload file or a container binding resolution
+ */
+export type BootProfileEntry = {
+  kind: 'provider' | 'preload' | 'binding'
+  name: string
+  phase: 'import' | 'register' | 'boot' | 'start' | 'ready' | 'resolve'
+
+  /**
+   * Time in milliseconds since the application was created
+   */
+  startTime: number
+
+  /**
+   * Time taken in milliseconds
+   */
+  duration: number
+}
+
+/**
+ * The report generated by the boot profiler
+ */
+export type BootProfileReport = {
+  /**
+   * Time in milliseconds taken by the application to get
+   * ready. Set to undefined when the app is not ready yet
+   */
+  duration?: number
+  entries: BootProfileEntry[]
+}
 
 /**
  * A list of known events. The interface must be extended in
@@ -45,7 +123,22 @@ export type IgnitorOptions = { importer?: Importer }
  */
 export interface EventsList extends HttpServerEvents {
   'container_binding:resolved': ContainerResolveEventData<ContainerBindings>
-  'http:server_ready': { port: number; host: string; duration: [number, number] }
+  'http:server_ready': {
+    port: number
+    host: string
+    addresses: HttpServerBoundAddress[]
+    duration: [number, number]
+  }
+  'http:server_closing': { timeout: number }
+  'http:server_closed': { duration: [number, number]; forceClosed: boolean }
+  'cluster:worker_online': { id: number; pid: number }
+  'cluster:worker_exit': {
+    id: number
+    pid: number
+    code: number | null
+    signal: string | null
+    restarting: boolean
+  }
 }
 
 /**
@@ -76,15 +169,17 @@ export type InferHashers<T extends ConfigProvider<{ list: Record<string, Manager
  * Application service is a singleton resolved from
  * the container
  */
-export interface ApplicationService
-  extends Application<ContainerBindings extends Record<any, any> ? ContainerBindings : never> {}
+export interface ApplicationService extends Application<
+  ContainerBindings extends Record<any, any> ? ContainerBindings : never
+> {}
 
 /**
  * Logger service is a singleton logger instance registered
  * to the container.
  */
-export interface LoggerService
-  extends LoggerManager<LoggersList extends Record<string, LoggerConfig> ? LoggersList : never> {}
+export interface LoggerService extends LoggerManager<
+  LoggersList extends Record<string, LoggerConfig> ? LoggersList : never
+> {}
 
 /**
  * Emitter service is a singleton emitter instance registered
@@ -112,10 +207,9 @@ export interface HttpRouterService extends Router {}
  * Hash service is a singleton instance of the HashManager
  * registered in the container
  */
-export interface HashService
-  extends HashManager<
-    HashersList extends Record<string, ManagerDriverFactory> ? HashersList : never
-  > {}
+export interface HashService extends HashManager<
+  HashersList extends Record<string, ManagerDriverFactory> ? HashersList : never
+> {}
 
 /**
  * A list of known container bindings.
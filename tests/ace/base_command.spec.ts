@@ -8,9 +8,13 @@
  */
 
 import sinon from 'sinon'
+import { join } from 'node:path'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { MemoryRenderer } from '@poppinss/cliui'
 import { test } from '@japa/runner'
-import { BaseCommand } from '../../modules/ace/main.js'
+import { BaseCommand, flags, ListLoader } from '../../modules/ace/main.js'
 import { ListCommand } from '../../modules/ace/commands.js'
+import { CommandLock } from '../../modules/ace/command_lock.js'
 import { IgnitorFactory } from '../../factories/core/ignitor.js'
 import { createAceKernel } from '../../modules/ace/create_kernel.js'
 
@@ -289,3 +293,581 @@ test.group('Base command', () => {
     appMock.verify()
   })
 })
+
+test.group('Base command | JSON mode', () => {
+  test('emit logs and the command result as a JSON document', async ({ assert }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class MakeController extends BaseCommand {
+      static commandName: string = 'make:controller'
+
+      async run() {
+        this.logger.action('create app/controllers/users_controller.ts').succeeded()
+        this.logger.info('controller created')
+        return { file: 'app/controllers/users_controller.ts' }
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    kernel.ui.switchMode('raw')
+    kernel.addLoader(new ListLoader([MakeController]))
+    await kernel.handle(['make:controller', '--json'])
+
+    const logs = kernel.ui.logger.getLogs()
+    assert.lengthOf(logs, 1)
+    assert.deepEqual(JSON.parse(logs[0].message), {
+      command: 'make:controller',
+      exitCode: 0,
+      result: { file: 'app/controllers/users_controller.ts' },
+      error: null,
+      logs: [
+        { message: 'DONE:    create app/controllers/users_controller.ts', stream: 'stdout' },
+        { message: '[ info ] controller created', stream: 'stdout' },
+      ],
+    })
+    assert.equal(kernel.exitCode, 0)
+  })
+
+  test('report command errors inside the JSON document', async ({ assert }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class MakeController extends BaseCommand {
+      static commandName: string = 'make:controller'
+
+      async run() {
+        this.logger.log('starting')
+        throw new Error('run failed')
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    kernel.ui.switchMode('raw')
+    kernel.addLoader(new ListLoader([MakeController]))
+    await kernel.handle(['make:controller', '--json'])
+
+    const logs = kernel.ui.logger.getLogs()
+    assert.lengthOf(logs, 1)
+    assert.deepEqual(JSON.parse(logs[0].message), {
+      command: 'make:controller',
+      exitCode: 1,
+      result: null,
+      error: { name: 'Error', message: 'run failed' },
+      logs: [{ message: 'starting', stream: 'stdout' }],
+    })
+    assert.equal(kernel.exitCode, 1)
+  })
+
+  test('restore the UI mode after emitting the JSON document', async ({ assert }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class MakeController extends BaseCommand {
+      static commandName: string = 'make:controller'
+
+      async run() {
+        this.logger.info('controller created')
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    const renderer = new MemoryRenderer()
+    kernel.ui.switchMode('silent')
+    kernel.ui.useRenderer(renderer)
+    kernel.addLoader(new ListLoader([MakeController]))
+    await kernel.handle(['make:controller', '--json'])
+
+    renderer.flushLogs()
+    kernel.ui.table().head(['Name']).row(['users']).render()
+
+    const logs = renderer.getLogs()
+    assert.isAbove(logs.length, 0)
+    assert.notEqual(logs[0].message, 'Name')
+    assert.match(logs[0].message, /Name/)
+  })
+
+  test('fail prompts in JSON mode', async ({ assert }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class MakeController extends BaseCommand {
+      static commandName: string = 'make:controller'
+
+      async run() {
+        return this.prompt.ask('Enter the controller name')
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    kernel.ui.switchMode('raw')
+    kernel.addLoader(new ListLoader([MakeController]))
+    await kernel.handle(['make:controller', '--json'])
+
+    const logs = kernel.ui.logger.getLogs()
+    assert.lengthOf(logs, 1)
+    assert.containsSubset(JSON.parse(logs[0].message), {
+      exitCode: 1,
+      error: {
+        name: 'RuntimeException',
+        message:
+          'Cannot display prompts when running "make:controller" command in JSON output mode',
+      },
+    })
+    assert.isFalse(Object.hasOwn(kernel.prompt, 'prompt'))
+  })
+
+  test('do not use JSON mode for commands with their own json flag', async ({ assert }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class ListRoutes extends BaseCommand {
+      static commandName: string = 'list:routes'
+
+      @flags.boolean()
+      declare json: boolean
+
+      async run() {
+        this.logger.log(JSON.stringify([{ pattern: '/' }]))
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    kernel.ui.switchMode('raw')
+    kernel.addLoader(new ListLoader([ListRoutes]))
+    await kernel.handle(['list:routes', '--json'])
+
+    assert.deepEqual(kernel.ui.logger.getLogs(), [
+      { message: JSON.stringify([{ pattern: '/' }]), stream: 'stdout' },
+    ])
+  })
+})
+
+test.group('Base command | Lock', () => {
+  test('acquire lock before running the command and release it afterwards', async ({
+    assert,
+    fs,
+  }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(fs.baseUrl)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class SyncUsers extends BaseCommand {
+      static commandName: string = 'sync:users'
+      static options = { lock: true }
+
+      async run() {
+        await assert.fileExists('tmp/locks/sync_users.lock')
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    const command = await kernel.create(SyncUsers, [])
+    await command.exec()
+
+    command.assertSucceeded()
+    await assert.fileNotExists('tmp/locks/sync_users.lock')
+  })
+
+  test('skip command when the lock is held by another process', async ({ assert, fs }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(fs.baseUrl)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+    await fs.createJson('tmp/locks/users.lock', { pid: process.pid, expiresAt: Date.now() + 60000 })
+
+    class SyncUsers extends BaseCommand {
+      static commandName: string = 'sync:users'
+      static options = { lock: { name: 'users' } }
+
+      async run() {
+        throw new Error('Never expected to run')
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    kernel.ui.switchMode('raw')
+    const command = await kernel.create(SyncUsers, [])
+    await command.exec()
+
+    command.assertSucceeded()
+    command.assertLog(
+      '[ yellow(warn) ] Skipping "sync:users" command. The "users" lock is held by another process'
+    )
+    await assert.fileExists('tmp/locks/users.lock')
+  })
+
+  test('release lock when the command fails', async ({ assert, fs }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(fs.baseUrl)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class SyncUsers extends BaseCommand {
+      static commandName: string = 'sync:users'
+      static options = { lock: true }
+
+      async run() {
+        throw new Error('Sync failed')
+      }
+
+      async completed() {
+        return true
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    const command = await kernel.create(SyncUsers, [])
+    await command.exec()
+
+    command.assertFailed()
+    await assert.fileNotExists('tmp/locks/sync_users.lock')
+  })
+
+  test('hold the lock while running the completed method', async ({ assert, fs }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(fs.baseUrl)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class SyncUsers extends BaseCommand {
+      static commandName: string = 'sync:users'
+      static options = { lock: true }
+
+      async run() {}
+
+      async completed() {
+        await assert.fileExists('tmp/locks/sync_users.lock')
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    const command = await kernel.create(SyncUsers, [])
+    await command.exec()
+
+    command.assertSucceeded()
+    await assert.fileNotExists('tmp/locks/sync_users.lock')
+  })
+
+  test('replace stale locks', async ({ assert, fs }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(fs.baseUrl)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class SyncUsers extends BaseCommand {
+      static commandName: string = 'sync:users'
+      static options = { lock: true }
+
+      runs = 0
+      async run() {
+        this.runs++
+      }
+    }
+
+    const kernel = createAceKernel(app)
+
+    await fs.createJson('tmp/locks/sync_users.lock', { pid: process.pid, expiresAt: Date.now() })
+    const command = await kernel.create(SyncUsers, [])
+    await command.exec()
+    assert.equal(command.runs, 1)
+
+    await fs.createJson('tmp/locks/sync_users.lock', {
+      pid: 2 ** 22 + 1,
+      expiresAt: Date.now() + 60000,
+    })
+    const anotherCommand = await kernel.create(SyncUsers, [])
+    await anotherCommand.exec()
+    assert.equal(anotherCommand.runs, 1)
+  })
+
+  test('wait for the lock to be released', async ({ assert, fs }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(fs.baseUrl)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+    await fs.createJson('tmp/locks/sync_users.lock', {
+      pid: process.pid,
+      expiresAt: Date.now() + 60000,
+    })
+
+    class SyncUsers extends BaseCommand {
+      static commandName: string = 'sync:users'
+      static options = { lock: { wait: '2s' } }
+
+      runs = 0
+      async run() {
+        this.runs++
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    const command = await kernel.create(SyncUsers, [])
+    setTimeout(() => fs.remove('tmp/locks/sync_users.lock'), 200)
+    await command.exec()
+
+    assert.equal(command.runs, 1)
+    await assert.fileNotExists('tmp/locks/sync_users.lock')
+  })
+
+  test('keep holding the lock when the command runs longer than the ttl', async ({
+    assert,
+    fs,
+  }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(fs.baseUrl)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class SyncUsers extends BaseCommand {
+      static commandName: string = 'sync:users'
+      static options = { lock: { ttl: 60 } }
+
+      async run() {
+        await sleep(200)
+        const lock = new CommandLock(app.tmpPath('locks/sync_users.lock'), { ttl: 60 })
+        return lock.acquire()
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    const command = await kernel.create(SyncUsers, [])
+    await command.exec()
+
+    command.assertSucceeded()
+    assert.isFalse(command.result)
+    await assert.fileNotExists('tmp/locks/sync_users.lock')
+  })
+
+  test('take over a stale lock only once', async ({ assert, fs }) => {
+    await fs.createJson('tmp/locks/sync_users.lock', { pid: process.pid, expiresAt: Date.now() })
+
+    const locks = Array.from({ length: 5 }, () => {
+      return new CommandLock(join(fs.basePath, 'tmp/locks/sync_users.lock'), { ttl: 60000 })
+    })
+
+    const acquired = await Promise.all(locks.map((lock) => lock.acquire()))
+    assert.lengthOf(
+      acquired.filter((isAcquired) => isAcquired),
+      1
+    )
+
+    await Promise.all(locks.map((lock) => lock.release()))
+    await assert.fileNotExists('tmp/locks/sync_users.lock')
+  })
+
+  test('do not remove the lock file owned by another process on exit', async ({ assert, fs }) => {
+    const lock = new CommandLock(join(fs.basePath, 'tmp/locks/sync_users.lock'), { ttl: 60000 })
+    await lock.acquire()
+
+    const exitListener = process.listeners('exit').at(-1)!
+    await fs.createJson('tmp/locks/sync_users.lock', {
+      pid: process.pid,
+      owner: 'another-process',
+      expiresAt: Date.now() + 60000,
+    })
+
+    exitListener(0)
+    assert.isFalse(lock.isAcquired)
+    await assert.fileExists('tmp/locks/sync_users.lock')
+  })
+})
+
+test.group('Base command | Dangerous commands', (group) => {
+  group.each.setup(() => {
+    return () => {
+      delete process.env.NODE_ENV
+    }
+  })
+
+  test('run dangerous commands without confirmation outside production', async ({ assert }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class DropTables extends BaseCommand {
+      static commandName: string = 'db:drop'
+      static options = { dangerous: true }
+
+      async run() {
+        return 'dropped'
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    const command = await kernel.create(DropTables, [])
+    await command.exec()
+
+    command.assertSucceeded()
+    assert.equal(command.result, 'dropped')
+  })
+
+  test('confirm dangerous commands in production', async ({ assert }) => {
+    process.env.NODE_ENV = 'production'
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class DropTables extends BaseCommand {
+      static commandName: string = 'db:drop'
+      static options = { dangerous: true }
+
+      async run() {
+        return 'dropped'
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    kernel.ui.switchMode('raw')
+
+    const command = await kernel.create(DropTables, [])
+    command.prompt
+      .trap('You are about to run "db:drop" command in production. Do you want to continue?')
+      .accept()
+    await command.exec()
+    command.assertSucceeded()
+    assert.equal(command.result, 'dropped')
+
+    const anotherCommand = await kernel.create(DropTables, [])
+    anotherCommand.prompt.trap('confirmDangerousCommand').reject()
+    await anotherCommand.exec()
+    anotherCommand.assertFailed()
+    assert.isUndefined(anotherCommand.result)
+    anotherCommand.assertLog('[ red(error) ] Cancelled running "db:drop" command', 'stderr')
+  })
+
+  test('skip confirmation when --allow-dangerous flag is used', async ({ assert }) => {
+    process.env.NODE_ENV = 'production'
+    const ignitor = new IgnitorFactory()
+      .withCoreConfig()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .create(BASE_URL)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+    await app.boot()
+
+    const logger = await app.container.make('logger')
+    const warn = sinon.spy(logger, 'warn')
+
+    class DropTables extends BaseCommand {
+      static commandName: string = 'db:drop'
+      static options = { dangerous: true }
+
+      async run() {
+        return 'dropped'
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    kernel.addLoader(new ListLoader([DropTables]))
+    await kernel.handle(['db:drop', '--allow-dangerous'])
+
+    assert.equal(kernel.exitCode, 0)
+    assert.equal(kernel.getMainCommand()!.result, 'dropped')
+    assert.isTrue(warn.calledOnce)
+    assert.containsSubset(warn.firstCall.args[0], { command: 'db:drop', forced: true })
+    assert.equal(warn.firstCall.args[1], 'running dangerous command "%s"')
+  })
+
+  test('do not run commands outside of the allowed environments', async ({ assert }) => {
+    process.env.NODE_ENV = 'production'
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class SeedDatabase extends BaseCommand {
+      static commandName: string = 'db:seed'
+      static options = { environments: ['development', 'test'] }
+
+      async run() {
+        return 'seeded'
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    kernel.ui.switchMode('raw')
+
+    const command = await kernel.create(SeedDatabase, [])
+    await command.exec()
+
+    command.assertFailed()
+    assert.isUndefined(command.result)
+    command.assertLog(
+      '[ red(error) ] The "db:seed" command cannot run in "production" environment',
+      'stderr'
+    )
+  })
+
+  test('read NODE_ENV from the .env file when the app is not booted', async ({ assert, fs }) => {
+    delete process.env.NODE_ENV
+    await fs.create('.env', 'NODE_ENV=development')
+
+    const ignitor = new IgnitorFactory().withCoreConfig().create(fs.baseUrl)
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class SeedDatabase extends BaseCommand {
+      static commandName: string = 'db:seed'
+      static options = { environments: ['development', 'test'] }
+
+      async run() {
+        return 'seeded'
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    const command = await kernel.create(SeedDatabase, [])
+    await command.exec()
+
+    command.assertSucceeded()
+    assert.equal(command.result, 'seeded')
+    assert.isUndefined(process.env.NODE_ENV)
+  })
+
+  test('normalize the shorthand NODE_ENV values', async ({ assert }) => {
+    process.env.NODE_ENV = 'prod'
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class DropTables extends BaseCommand {
+      static commandName: string = 'db:drop'
+      static options = { dangerous: true }
+
+      async run() {
+        return 'dropped'
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    kernel.ui.switchMode('raw')
+
+    const command = await kernel.create(DropTables, [])
+    command.prompt.trap('confirmDangerousCommand').reject()
+    await command.exec()
+
+    command.assertFailed()
+    assert.isUndefined(command.result)
+    command.assertLog('[ red(error) ] Cancelled running "db:drop" command', 'stderr')
+  })
+})
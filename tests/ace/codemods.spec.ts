@@ -9,6 +9,7 @@
 
 import { test } from '@japa/runner'
 import { Codemods } from '../../modules/ace/codemods.js'
+import { stubsRoot } from '../../stubs/main.js'
 import { AceFactory } from '../../factories/core/ace.js'
 
 test.group('Codemods', (group) => {
@@ -96,7 +97,11 @@ test.group('Codemods | environment variables', (group) => {
     await codemods.defineEnvVariables({ CORS_MODE: 'strict', CORS_ENABLED: true })
     assert.deepEqual(ace.ui.logger.getLogs(), [
       {
-        message: 'green(DONE:)    update .env file',
+        message: 'cyan(SKIPPED:) update .env file dim((File does not exist))',
+        stream: 'stdout',
+      },
+      {
+        message: 'cyan(SKIPPED:) update .env.example file dim((File does not exist))',
         stream: 'stdout',
       },
     ])
@@ -104,6 +109,93 @@ test.group('Codemods | environment variables', (group) => {
     await assert.fileNotExists('.env')
   })
 
+  test('define env variables in the selected env files', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.create('.env', 'PORT=3333\n')
+    await fs.create('.env.test', 'PORT=3333\n')
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.defineEnvVariables({ DRIVE_DISK: 'memory' }, { files: ['.env.test'] })
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      {
+        message: 'green(DONE:)    update .env.test file',
+        stream: 'stdout',
+      },
+    ])
+
+    await assert.fileEquals('.env', 'PORT=3333\n')
+    await assert.fileEquals('.env.test', 'PORT=3333\nDRIVE_DISK=memory\n')
+  })
+
+  test('group env variables under a comment heading', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.create(
+      '.env',
+      ['PORT=3333', 'SMTP_HOST=localhost', '', '# Logging', 'LOG_LEVEL=info', ''].join('\n')
+    )
+    await fs.create('.env.example', ['PORT=3333', ''].join('\n'))
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.defineEnvVariables(
+      { SMTP_HOST: '127.0.0.1', SMTP_PORT: 587 },
+      {
+        comment: 'Variables for configuring the mail package',
+        comments: { SMTP_PORT: 'Port of the SMTP server' },
+      }
+    )
+    await codemods.defineEnvVariables(
+      { SMTP_USERNAME: 'admin', SMTP_PASSWORD: 'secret' },
+      {
+        comment: 'Variables for configuring the mail package',
+        omitFromExample: ['SMTP_PASSWORD'],
+      }
+    )
+    await codemods.defineEnvVariables({ LOG_PRETTY: true }, { comment: 'Logging' })
+
+    await assert.fileEquals(
+      '.env',
+      [
+        'PORT=3333',
+        'SMTP_HOST=127.0.0.1',
+        '',
+        '# Logging',
+        'LOG_LEVEL=info',
+        'LOG_PRETTY=true',
+        '',
+        '# Variables for configuring the mail package',
+        '# Port of the SMTP server',
+        'SMTP_PORT=587',
+        'SMTP_USERNAME=admin',
+        'SMTP_PASSWORD=secret',
+        '',
+      ].join('\n')
+    )
+    await assert.fileEquals(
+      '.env.example',
+      [
+        'PORT=3333',
+        '',
+        '# Variables for configuring the mail package',
+        'SMTP_HOST=127.0.0.1',
+        '# Port of the SMTP server',
+        'SMTP_PORT=587',
+        'SMTP_USERNAME=admin',
+        'SMTP_PASSWORD=',
+        '',
+        '# Logging',
+        'LOG_PRETTY=true',
+        '',
+      ].join('\n')
+    )
+  })
+
   test('define env variables validations', async ({ assert, fs }) => {
     const ace = await new AceFactory().make(fs.baseUrl)
     await ace.app.init()
@@ -190,6 +282,445 @@ test.group('Codemods | registerMiddleware', (group) => {
   })
 })
 
+test.group('Codemods | registerRoutes', (group) => {
+  group.tap((t) => t.timeout(60 * 1000))
+
+  test('register routes, groups and resources', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create(
+      'start/routes.ts',
+      [
+        `import router from '@adonisjs/core/services/router'`,
+        `const PostsController = () => import('#controllers/posts_controller')`,
+        '',
+        `router.get('/', async () => 'hello')`,
+        '',
+      ].join('\n')
+    )
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.registerRoutes([
+      {
+        type: 'route',
+        method: 'get',
+        pattern: '/health',
+        controller: {
+          name: 'HealthChecksController',
+          path: '#controllers/health_checks_controller',
+        },
+        name: 'health',
+      },
+      {
+        type: 'group',
+        prefix: '/api',
+        routes: [
+          {
+            type: 'resource',
+            resource: 'posts',
+            apiOnly: true,
+            controller: { name: 'PostsController', path: '#controllers/posts_controller' },
+          },
+          {
+            type: 'route',
+            method: 'post',
+            pattern: '/login',
+            action: 'store',
+            controller: { name: 'SessionController', path: '#controllers/session_controller' },
+          },
+        ],
+      },
+    ])
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      {
+        message: 'green(DONE:)    update start/routes.ts file',
+        stream: 'stdout',
+      },
+    ])
+
+    await assert.fileEquals(
+      'start/routes.ts',
+      [
+        `import router from '@adonisjs/core/services/router'`,
+        `const PostsController = () => import('#controllers/posts_controller')`,
+        `const HealthChecksController = () => import('#controllers/health_checks_controller')`,
+        `const SessionController = () => import('#controllers/session_controller')`,
+        '',
+        `router.get('/', async () => 'hello')`,
+        `router.get('/health', [HealthChecksController]).as('health')`,
+        'router',
+        '  .group(() => {',
+        `    router.resource('posts', PostsController).apiOnly()`,
+        `    router.post('/login', [SessionController, 'store'])`,
+        '  })',
+        `  .prefix('/api')`,
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('do not register existing routes again', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create(
+      'start/routes.ts',
+      [
+        `import router from '@adonisjs/core/services/router'`,
+        `const UsersController = () => import('#controllers/users_controller')`,
+        '',
+        `router.get("/health", [UsersController])`,
+        'router',
+        '  .group(() => {',
+        `    router.get('/users', [UsersController])`,
+        '  })',
+        `  .prefix('/api')`,
+        '',
+      ].join('\n')
+    )
+
+    const usersController = { name: 'UsersController', path: '#controllers/users_controller' }
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.registerRoutes([
+      { type: 'route', method: 'get', pattern: '/health', controller: usersController },
+      {
+        type: 'group',
+        prefix: '/api',
+        routes: [
+          { type: 'route', method: 'get', pattern: '/users', controller: usersController },
+          { type: 'route', method: 'post', pattern: '/users', controller: usersController },
+        ],
+      },
+    ])
+
+    await assert.fileEquals(
+      'start/routes.ts',
+      [
+        `import router from '@adonisjs/core/services/router'`,
+        `const UsersController = () => import('#controllers/users_controller')`,
+        '',
+        `router.get("/health", [UsersController])`,
+        'router',
+        '  .group(() => {',
+        `    router.get('/users', [UsersController])`,
+        `    router.post('/users', [UsersController])`,
+        '  })',
+        `  .prefix('/api')`,
+        '',
+      ].join('\n')
+    )
+  })
+})
+
+test.group('Codemods | registerEventListeners', (group) => {
+  group.tap((t) => t.timeout(60 * 1000))
+
+  test('register event listeners inside the events file', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create(
+      'start/events.ts',
+      [
+        `import emitter from '@adonisjs/core/services/emitter'`,
+        `import OrderShipped from '#events/order_shipped'`,
+        `const SendEmail = () => import('#listeners/send_email')`,
+        '',
+        'emitter.on(OrderShipped, [SendEmail])',
+        '',
+      ].join('\n')
+    )
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.registerEventListeners([
+      {
+        event: { name: 'OrderShipped', path: '#events/order_shipped' },
+        listener: { name: 'SendEmail', path: '#listeners/send_email' },
+      },
+      {
+        event: 'db:query',
+        listener: { name: 'LogQuery', path: '#listeners/log_query' },
+        method: 'log',
+      },
+    ])
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      {
+        message: 'green(DONE:)    update start/events.ts file',
+        stream: 'stdout',
+      },
+    ])
+
+    await assert.fileEquals(
+      'start/events.ts',
+      [
+        `import emitter from '@adonisjs/core/services/emitter'`,
+        `import OrderShipped from '#events/order_shipped'`,
+        `const SendEmail = () => import('#listeners/send_email')`,
+        `const LogQuery = () => import('#listeners/log_query')`,
+        '',
+        'emitter.on(OrderShipped, [SendEmail])',
+        `emitter.on('db:query', [LogQuery, 'log'])`,
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('create and preload the events file when missing', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create('adonisrc.ts', 'export default defineConfig({})')
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.registerEventListeners([
+      {
+        event: 'db:query',
+        listener: { name: 'LogQuery', path: '#listeners/log_query' },
+      },
+    ])
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      {
+        message: 'green(DONE:)    create start/events.ts',
+        stream: 'stdout',
+      },
+      {
+        message: 'green(DONE:)    update adonisrc.ts file',
+        stream: 'stdout',
+      },
+    ])
+
+    await assert.fileContains('start/events.ts', `emitter.on('db:query', [LogQuery])`)
+    await assert.fileContains('adonisrc.ts', `preloads: [() => import('#start/events')]`)
+  })
+})
+
+test.group('Codemods | registerBindings', (group) => {
+  group.tap((t) => t.timeout(60 * 1000))
+
+  test('register container bindings inside the provider', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create(
+      'providers/app_provider.ts',
+      [
+        `import type { ApplicationService } from '@adonisjs/core/types'`,
+        '',
+        'export default class AppProvider {',
+        '  constructor(protected app: ApplicationService) {}',
+        '',
+        '  async boot() {}',
+        '}',
+        '',
+      ].join('\n')
+    )
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    const bindings = [
+      {
+        method: 'singleton' as const,
+        binding: { name: 'Cache', path: '#services/cache' },
+        factory: '() => new Cache()',
+      },
+      {
+        method: 'bind' as const,
+        binding: 'payments',
+        factory: `async () => import('#services/payments')`,
+      },
+    ]
+
+    await codemods.registerBindings('providers/app_provider.ts', bindings)
+    await codemods.registerBindings('providers/app_provider.ts', bindings)
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      {
+        message: 'green(DONE:)    update providers/app_provider.ts file',
+        stream: 'stdout',
+      },
+      {
+        message: 'green(DONE:)    update providers/app_provider.ts file',
+        stream: 'stdout',
+      },
+    ])
+
+    await assert.fileEquals(
+      'providers/app_provider.ts',
+      [
+        `import type { ApplicationService } from '@adonisjs/core/types'`,
+        `import Cache from '#services/cache'`,
+        '',
+        'export default class AppProvider {',
+        '  constructor(protected app: ApplicationService) {}',
+        '',
+        '  /**',
+        '   * Register bindings to the container',
+        '   */',
+        '  register() {',
+        '    this.app.container.singleton(Cache, () => new Cache())',
+        `    this.app.container.bind('payments', async () => import('#services/payments'))`,
+        '  }',
+        '',
+        '  async boot() {}',
+        '}',
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('report error when the provider class is missing', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create('providers/app_provider.ts', 'export const foo = 1')
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    codemods.on('error', () => {})
+
+    await codemods.registerBindings('providers/app_provider.ts', [
+      { method: 'singleton', binding: 'cache', factory: '() => ({})' },
+    ])
+
+    const logs = ace.ui.logger.getLogs()
+    assert.lengthOf(logs, 1)
+    assert.equal(logs[0].stream, 'stderr')
+    assert.match(logs[0].message, /^red\(FAILED:\) {2}update providers\/app_provider.ts file/)
+    assert.include(
+      logs[0].message,
+      'Cannot find the provider class exported from "providers/app_provider.ts" file'
+    )
+  })
+})
+
+test.group('Codemods | updateConfig', (group) => {
+  group.tap((t) => t.timeout(60 * 1000))
+
+  test('define properties of the config object', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create(
+      'config/app.ts',
+      [
+        `import { defineConfig } from '@adonisjs/core/http'`,
+        '',
+        'export const http = defineConfig({',
+        '  generateRequestId: true,',
+        '  cookie: {',
+        `    domain: '',`,
+        '  },',
+        '})',
+        '',
+      ].join('\n')
+    )
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.updateConfig('config/app.ts', 'cookie.maxAge', `'2h'`)
+    await codemods.updateConfig('config/app.ts', ['qs', 'parse', 'depth'], '5')
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      { message: 'green(DONE:)    update config/app.ts file', stream: 'stdout' },
+      { message: 'green(DONE:)    update config/app.ts file', stream: 'stdout' },
+    ])
+
+    await assert.fileEquals(
+      'config/app.ts',
+      [
+        `import { defineConfig } from '@adonisjs/core/http'`,
+        '',
+        'export const http = defineConfig({',
+        '  generateRequestId: true,',
+        '  cookie: {',
+        `    domain: '',`,
+        `    maxAge: '2h',`,
+        '  },',
+        '  qs: {',
+        '    parse: {',
+        '      depth: 5,',
+        '    },',
+        '  },',
+        '})',
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('do not overwrite existing properties unless allowed', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create(
+      'config/app.ts',
+      [
+        `import { defineConfig } from '@adonisjs/core/http'`,
+        '',
+        'export const http = defineConfig({',
+        '  generateRequestId: true,',
+        '})',
+        '',
+      ].join('\n')
+    )
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.updateConfig('config/app.ts', 'generateRequestId', 'false')
+    await assert.fileContains('config/app.ts', 'generateRequestId: true')
+
+    await codemods.updateConfig('config/app.ts', 'generateRequestId', 'false', {
+      overwriteExisting: true,
+    })
+    await assert.fileContains('config/app.ts', 'generateRequestId: false')
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      {
+        message:
+          'cyan(SKIPPED:) update config/app.ts file dim(("generateRequestId" is already defined))',
+        stream: 'stdout',
+      },
+      { message: 'green(DONE:)    update config/app.ts file', stream: 'stdout' },
+    ])
+  })
+
+  test('report error when the file does not use defineConfig', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create('config/app.ts', 'export default {}')
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    codemods.on('error', () => {})
+    await codemods.updateConfig('config/app.ts', 'appKey', `env.get('APP_KEY')`)
+
+    const logs = ace.ui.logger.getLogs()
+    assert.lengthOf(logs, 1)
+    assert.equal(logs[0].stream, 'stderr')
+    assert.include(
+      logs[0].message,
+      'Cannot find the object passed to "defineConfig" in "config/app.ts" file'
+    )
+  })
+})
+
 test.group('Codemods | registerPolicies', (group) => {
   group.tap((t) => t.timeout(60 * 1000))
 
@@ -271,6 +802,394 @@ test.group('Codemods | registerJapaPlugin', (group) => {
   })
 })
 
+test.group('Codemods | updatePackageJson', (group) => {
+  group.tap((t) => t.timeout(60 * 1000))
+
+  test('define imports, scripts and engines', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', { compilerOptions: {} })
+    await fs.create(
+      'package.json',
+      JSON.stringify(
+        {
+          name: 'app',
+          scripts: { dev: 'node ace serve --hmr' },
+          imports: { '#controllers/*': './app/controllers/*.js' },
+          dependencies: {},
+        },
+        null,
+        4
+      ) + '\n'
+    )
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.updatePackageJson({
+      imports: { '#mails/*': './app/mails/*.js' },
+      scripts: { 'queue:work': 'node ace queue:work' },
+      engines: { node: '>=20.6.0' },
+    })
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      { message: 'green(DONE:)    update package.json file', stream: 'stdout' },
+    ])
+
+    await assert.fileEquals(
+      'package.json',
+      JSON.stringify(
+        {
+          name: 'app',
+          scripts: { 'dev': 'node ace serve --hmr', 'queue:work': 'node ace queue:work' },
+          imports: {
+            '#controllers/*': './app/controllers/*.js',
+            '#mails/*': './app/mails/*.js',
+          },
+          dependencies: {},
+          engines: { node: '>=20.6.0' },
+        },
+        null,
+        4
+      ) + '\n'
+    )
+    await assert.fileEquals('tsconfig.json', JSON.stringify({ compilerOptions: {} }))
+  })
+
+  test('do not overwrite existing entries unless allowed', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('package.json', { scripts: { test: 'node ace test' } })
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.updatePackageJson({ scripts: { test: 'node ace test --watch' } })
+    await assert.fileContains('package.json', '"test":"node ace test"')
+
+    await codemods.updatePackageJson(
+      { scripts: { test: 'node ace test --watch' } },
+      { overwriteExisting: true }
+    )
+    await assert.fileContains('package.json', '"test": "node ace test --watch"')
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      {
+        message: 'cyan(SKIPPED:) update package.json file dim(("scripts.test" is already defined))',
+        stream: 'stdout',
+      },
+      { message: 'green(DONE:)    update package.json file', stream: 'stdout' },
+    ])
+  })
+
+  test('add imports aliases to the tsconfig paths', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('package.json', { imports: {} })
+    await fs.createJson('tsconfig.json', {
+      compilerOptions: { paths: { '#models/*': ['./app/models/*.js'] } },
+    })
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.updatePackageJson({ imports: { '#mails/*': './app/mails/*.js' } })
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      { message: 'green(DONE:)    update package.json file', stream: 'stdout' },
+      { message: 'green(DONE:)    update tsconfig.json file', stream: 'stdout' },
+    ])
+
+    assert.deepEqual(await fs.contentsJson('tsconfig.json'), {
+      compilerOptions: {
+        paths: { '#models/*': ['./app/models/*.js'], '#mails/*': ['./app/mails/*.js'] },
+      },
+    })
+  })
+
+  test('report the skipped entries when other entries are updated', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('package.json', { scripts: { test: 'node ace test' } })
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.updatePackageJson({
+      scripts: { 'test': 'node ace test --watch', 'queue:work': 'node ace queue:work' },
+    })
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      { message: 'green(DONE:)    update package.json file', stream: 'stdout' },
+      {
+        message:
+          '[ yellow(warn) ] Skipped updating package.json file. "scripts.test" is already defined',
+        stream: 'stdout',
+      },
+    ])
+
+    assert.deepEqual(await fs.contentsJson('package.json'), {
+      scripts: { 'test': 'node ace test', 'queue:work': 'node ace queue:work' },
+    })
+  })
+
+  test('warn when unable to parse the tsconfig file', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    const tsConfig = [
+      '{',
+      '  // Subpath imports aliases',
+      '  "compilerOptions": { "paths": { "#models/*": ["./app/models/*.js"] } }',
+      '}',
+    ].join('\n')
+
+    await fs.createJson('package.json', { imports: {} })
+    await fs.create('tsconfig.json', tsConfig)
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.updatePackageJson({ imports: { '#mails/*': './app/mails/*.js' } })
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      { message: 'green(DONE:)    update package.json file', stream: 'stdout' },
+      {
+        message:
+          '[ yellow(warn) ] Cannot parse "tsconfig.json" file. Add the imports aliases to "compilerOptions.paths" manually',
+        stream: 'stdout',
+      },
+    ])
+    await assert.fileEquals('tsconfig.json', tsConfig)
+  })
+})
+
+test.group('Codemods | remove', (group) => {
+  group.tap((t) => t.timeout(60 * 1000))
+
+  test('remove entries from the rcfile', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create(
+      'adonisrc.ts',
+      [
+        `import { defineConfig } from '@adonisjs/core/app'`,
+        '',
+        'export default defineConfig({',
+        `  commands: [() => import('@adonisjs/core/commands'), () => import('@adonisjs/lucid/commands')],`,
+        '  providers: [',
+        `    () => import('@adonisjs/core/providers/app_provider'),`,
+        `    () => import('@adonisjs/lucid/database_provider'),`,
+        '    {',
+        `      file: () => import('@adonisjs/core/providers/repl_provider'),`,
+        `      environment: ['repl'],`,
+        '    },',
+        '  ],',
+        `  preloads: [() => import('#start/routes')],`,
+        `  metaFiles: [{ pattern: 'resources/views/**/*.edge', reloadServer: false }],`,
+        '})',
+        '',
+      ].join('\n')
+    )
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.removeFromRcFile({
+      commands: ['@adonisjs/lucid/commands'],
+      providers: ['@adonisjs/lucid/database_provider', '@adonisjs/core/providers/repl_provider'],
+      preloadFiles: ['#start/routes'],
+      metaFiles: ['resources/views/**/*.edge'],
+    })
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      { message: 'green(DONE:)    update adonisrc.ts file', stream: 'stdout' },
+    ])
+
+    await assert.fileEquals(
+      'adonisrc.ts',
+      [
+        `import { defineConfig } from '@adonisjs/core/app'`,
+        '',
+        'export default defineConfig({',
+        `  commands: [() => import('@adonisjs/core/commands')],`,
+        '  providers: [',
+        `    () => import('@adonisjs/core/providers/app_provider'),`,
+        '  ],',
+        '  preloads: [],',
+        '  metaFiles: [],',
+        '})',
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('remove middleware', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create(
+      'start/kernel.ts',
+      [
+        `server.use([() => import('#middleware/container_bindings_middleware')])`,
+        '',
+        'router.use([',
+        `  () => import('@adonisjs/core/bodyparser_middleware'),`,
+        `  () => import('@adonisjs/session/session_middleware'),`,
+        '])',
+        '',
+        'export const middleware = router.named({',
+        `  auth: () => import('#middleware/auth_middleware'),`,
+        `  guest: () => import('#middleware/guest_middleware'),`,
+        '})',
+        '',
+      ].join('\n')
+    )
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.removeMiddleware('router', [{ path: '@adonisjs/session/session_middleware' }])
+    await codemods.removeMiddleware('named', [
+      { name: 'auth', path: '#middleware/auth_middleware' },
+    ])
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      { message: 'green(DONE:)    update start/kernel.ts file', stream: 'stdout' },
+      { message: 'green(DONE:)    update start/kernel.ts file', stream: 'stdout' },
+    ])
+
+    await assert.fileEquals(
+      'start/kernel.ts',
+      [
+        `server.use([() => import('#middleware/container_bindings_middleware')])`,
+        '',
+        'router.use([',
+        `  () => import('@adonisjs/core/bodyparser_middleware'),`,
+        '])',
+        '',
+        'export const middleware = router.named({',
+        `  guest: () => import('#middleware/guest_middleware'),`,
+        '})',
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('remove env variables and their validations', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create(
+      '.env',
+      [
+        'PORT=3333',
+        '',
+        '# Variables for configuring the session package',
+        'SESSION_DRIVER=cookie',
+        '',
+      ].join('\n')
+    )
+    await fs.create('.env.example', ['PORT=3333', 'SESSION_DRIVER=', ''].join('\n'))
+    await fs.create(
+      'start/env.ts',
+      [
+        `export default await Env.create(new URL('../', import.meta.url), {`,
+        '  PORT: Env.schema.number(),',
+        `  SESSION_DRIVER: Env.schema.enum(['cookie', 'memory'] as const),`,
+        '})',
+        '',
+      ].join('\n')
+    )
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.removeEnvVariables(['SESSION_DRIVER'])
+    await codemods.removeEnvValidations(['SESSION_DRIVER'])
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      { message: 'green(DONE:)    update .env file', stream: 'stdout' },
+      { message: 'green(DONE:)    update start/env.ts file', stream: 'stdout' },
+    ])
+
+    await assert.fileEquals('.env', ['PORT=3333', ''].join('\n'))
+    await assert.fileEquals('.env.example', ['PORT=3333', ''].join('\n'))
+    await assert.fileEquals(
+      'start/env.ts',
+      [
+        `export default await Env.create(new URL('../', import.meta.url), {`,
+        '  PORT: Env.schema.number(),',
+        '})',
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('remove vite and japa plugins along with their imports', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create(
+      'vite.config.ts',
+      [
+        `import { defineConfig } from 'vite'`,
+        `import vue from '@vitejs/plugin-vue'`,
+        `import adonisjs from '@adonisjs/vite/client'`,
+        '',
+        'export default defineConfig({',
+        `  plugins: [adonisjs({ entrypoints: ['resources/js/app.js'] }), vue()],`,
+        '})',
+        '',
+      ].join('\n')
+    )
+    await fs.create(
+      'tests/bootstrap.ts',
+      [
+        `import { assert } from '@japa/assert'`,
+        `import { apiClient } from '@japa/api-client'`,
+        '',
+        'export const plugins = [assert(), apiClient()]',
+        '',
+      ].join('\n')
+    )
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    await codemods.removeVitePlugin('vue()', [
+      { identifier: 'vue', module: '@vitejs/plugin-vue', isNamed: false },
+    ])
+    await codemods.removeJapaPlugin('apiClient()', [
+      { identifier: 'apiClient', module: '@japa/api-client', isNamed: true },
+    ])
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      { message: 'green(DONE:)    update vite.config.ts file', stream: 'stdout' },
+      { message: 'green(DONE:)    update tests/bootstrap.ts file', stream: 'stdout' },
+    ])
+
+    await assert.fileEquals(
+      'vite.config.ts',
+      [
+        `import { defineConfig } from 'vite'`,
+        `import adonisjs from '@adonisjs/vite/client'`,
+        '',
+        'export default defineConfig({',
+        `  plugins: [adonisjs({ entrypoints: ['resources/js/app.js'] })],`,
+        '})',
+        '',
+      ].join('\n')
+    )
+    await assert.fileEquals(
+      'tests/bootstrap.ts',
+      [`import { assert } from '@japa/assert'`, '', 'export const plugins = [assert()]', ''].join(
+        '\n'
+      )
+    )
+  })
+})
+
 test.group('Codemods | install packages', (group) => {
   group.tap((t) => t.timeout(60 * 1000))
 
@@ -303,3 +1222,111 @@ test.group('Codemods | install packages', (group) => {
     await assert.dirExists('node_modules/@adonisjs/assembler')
   })
 })
+
+test.group('Codemods | dry run', (group) => {
+  group.tap((t) => t.timeout(60 * 1000))
+
+  test('collect the changes without writing them to the disk', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create('adonisrc.ts', 'export default defineConfig({})')
+    await fs.create('.env', 'PORT=3333')
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    codemods.dryRun = true
+
+    await codemods.updateRcFile((rcFile) => {
+      rcFile.addProvider('@adonisjs/core')
+    })
+    await codemods.updateRcFile((rcFile) => {
+      rcFile.addCommand('@adonisjs/core/commands')
+    })
+    await codemods.defineEnvVariables({ CORS_ENABLED: true })
+
+    await assert.fileEquals('adonisrc.ts', 'export default defineConfig({})')
+    await assert.fileEquals('.env', 'PORT=3333')
+
+    assert.equal(
+      codemods.getDiff(),
+      [
+        '--- a/adonisrc.ts',
+        '+++ b/adonisrc.ts',
+        '@@ -1,1 +1,4 @@',
+        '-export default defineConfig({})',
+        '\\ No newline at end of file',
+        '+export default defineConfig({',
+        `+  providers: [() => import('@adonisjs/core')],`,
+        `+  commands: [() => import('@adonisjs/core/commands')]`,
+        '+})',
+        '--- a/.env',
+        '+++ b/.env',
+        '@@ -1,1 +1,2 @@',
+        '-PORT=3333',
+        '\\ No newline at end of file',
+        '+PORT=3333',
+        '+CORS_ENABLED=true',
+        '\\ No newline at end of file',
+      ].join('\n')
+    )
+  })
+
+  test('display the files to create from stubs as a diff', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    codemods.dryRun = true
+
+    const result = await codemods.makeUsingStub(stubsRoot, 'make/event/main.stub', {
+      entity: ace.app.generators.createEntity('order_shipped'),
+    })
+    const output = await codemods.makeUsingStub(stubsRoot, 'make/event/main.stub', {
+      entity: ace.app.generators.createEntity('order_shipped'),
+    })
+
+    assert.equal(result.status, 'created')
+    assert.equal(output.status, 'skipped')
+    await assert.fileNotExists('app/events/order_shipped.ts')
+
+    const lines = result.contents.replace(/\n$/, '').split('\n')
+    assert.equal(
+      codemods.getDiff(),
+      [
+        '--- /dev/null',
+        '+++ b/app/events/order_shipped.ts',
+        `@@ -0,0 +1,${lines.length} @@`,
+        ...lines.map((line) => `+${line}`),
+        ...(result.contents.endsWith('\n') ? [] : ['\\ No newline at end of file']),
+      ].join('\n')
+    )
+  })
+
+  test('do not install packages in dry-run mode', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.createJson('package.json', {})
+
+    const codemods = new Codemods(ace.app, ace.ui.logger)
+    codemods.dryRun = true
+    await codemods.installPackages([
+      { name: '@adonisjs/assembler@next', isDevDependency: true },
+      { name: 'reflect-metadata', isDevDependency: false },
+    ])
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      {
+        message: '[ blue(info) ] Skipping packages installation in dry-run mode',
+        stream: 'stdout',
+      },
+      { message: 'devDependencies: @adonisjs/assembler@next', stream: 'stdout' },
+      { message: 'dependencies: reflect-metadata', stream: 'stdout' },
+    ])
+  })
+})
@@ -0,0 +1,272 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { tmpdir } from 'node:os'
+import { stat } from 'node:fs/promises'
+import { connect } from 'node:net'
+import { Writable } from 'node:stream'
+import { createInterface } from 'node:readline'
+import { test } from '@japa/runner'
+import { AceDaemon } from '../../modules/ace/daemon.js'
+import type { AceDaemonMessage, CommandOptions } from '../../types/ace.js'
+import { IgnitorFactory } from '../../factories/core/ignitor.js'
+import { BaseCommand, ListLoader } from '../../modules/ace/main.js'
+import { createAceKernel } from '../../modules/ace/create_kernel.js'
+import {
+  AceDaemonClient,
+  getDaemonSocketPath,
+  getDaemonSocketsDir,
+} from '../../modules/ace/daemon_client.js'
+
+const BASE_URL = new URL('./tmp/', import.meta.url)
+
+/**
+ * Returns a writable stream collecting the chunks written to it
+ */
+function createOutput() {
+  const chunks: string[] = []
+  const stream = new Writable({
+    write(chunk, _, callback) {
+      chunks.push(chunk.toString())
+      callback()
+    },
+  })
+
+  return { stream, chunks }
+}
+
+class Greet extends BaseCommand {
+  static commandName: string = 'greet'
+
+  async run() {
+    this.logger.info(`Hello from ${process.pid}`)
+    this.logger.error('Something is off')
+  }
+}
+
+class Fail extends BaseCommand {
+  static commandName: string = 'fail'
+
+  async run() {
+    this.exitCode = 3
+  }
+}
+
+class Ask extends BaseCommand {
+  static commandName: string = 'ask'
+
+  async run() {
+    await this.prompt.ask('What is your name?')
+  }
+}
+
+class Exit extends BaseCommand {
+  static commandName: string = 'exit'
+
+  async run() {
+    await this.terminate()
+  }
+}
+
+class Cwd extends BaseCommand {
+  static commandName: string = 'cwd'
+
+  async run() {
+    this.logger.log(`${process.cwd()} ${process.env.DAEMON_GREETING}`)
+  }
+}
+
+class Serve extends BaseCommand {
+  static commandName: string = 'serve'
+  static options: CommandOptions = {
+    staysAlive: true,
+  }
+}
+
+test.group('Ace daemon', () => {
+  test('run commands through the daemon and stream the output', async ({ assert, cleanup }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    const daemon = new AceDaemon(app, async (commandName) => {
+      const kernel = createAceKernel(app, commandName)
+      kernel.addLoader(new ListLoader([Greet, Fail]))
+      return kernel
+    })
+
+    await daemon.start()
+    cleanup(() => daemon.stop())
+    assert.isTrue(daemon.isListening)
+
+    const stdout = createOutput()
+    const stderr = createOutput()
+    const client = new AceDaemonClient(daemon.socketPath, {
+      stdout: stdout.stream,
+      stderr: stderr.stream,
+    })
+
+    assert.equal(await client.run(['greet']), 0)
+    assert.deepEqual(stdout.chunks, [`[ info ] Hello from ${process.pid}\n`])
+    assert.deepEqual(stderr.chunks, ['[ error ] Something is off\n'])
+
+    assert.equal(await client.run(['fail']), 3)
+  })
+
+  test('report missing commands with a non-zero exit code', async ({ assert, cleanup }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    const daemon = new AceDaemon(app, async (commandName) => createAceKernel(app, commandName))
+    await daemon.start()
+    cleanup(() => daemon.stop())
+
+    const stderr = createOutput()
+    const client = new AceDaemonClient(daemon.socketPath, {
+      stdout: createOutput().stream,
+      stderr: stderr.stream,
+    })
+
+    assert.equal(await client.run(['foo']), 1)
+    assert.match(stderr.chunks.join(''), /Command "foo" is not defined/)
+  })
+
+  test('fallback for the commands that stay alive', async ({ assert, cleanup }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    const daemon = new AceDaemon(app, async (commandName) => {
+      const kernel = createAceKernel(app, commandName)
+      kernel.addLoader(new ListLoader([Serve]))
+      return kernel
+    })
+
+    await daemon.start()
+    cleanup(() => daemon.stop())
+
+    const client = new AceDaemonClient(daemon.socketPath)
+    assert.isUndefined(await client.run(['serve']))
+  })
+
+  test('fail when a command displays a prompt', async ({ assert, cleanup }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    const daemon = new AceDaemon(app, async (commandName) => {
+      const kernel = createAceKernel(app, commandName)
+      kernel.addLoader(new ListLoader([Ask]))
+      return kernel
+    })
+
+    await daemon.start()
+    cleanup(() => daemon.stop())
+
+    const stderr = createOutput()
+    const client = new AceDaemonClient(daemon.socketPath, {
+      stdout: createOutput().stream,
+      stderr: stderr.stream,
+    })
+
+    assert.equal(await client.run(['ask']), 1)
+    assert.match(stderr.chunks.join(''), /Cannot display prompts when running commands/)
+  })
+
+  test('return undefined when the daemon is not running', async ({ assert }) => {
+    const client = new AceDaemonClient(getDaemonSocketPath(BASE_URL))
+    assert.isFalse(await client.isRunning())
+    assert.isUndefined(await client.run(['greet']))
+  })
+
+  test('do not start multiple daemons for the same app', async ({ assert, cleanup }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    const daemon = new AceDaemon(app, async (commandName) => createAceKernel(app, commandName))
+    await daemon.start()
+    cleanup(() => daemon.stop())
+
+    const anotherDaemon = new AceDaemon(app, async (name) => createAceKernel(app, name))
+    await assert.rejects(() => anotherDaemon.start(), /Ace daemon is already running/)
+  })
+  test('do not terminate the app when a command calls terminate', async ({ assert, cleanup }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    const daemon = new AceDaemon(app, async (commandName) => {
+      const kernel = createAceKernel(app, commandName)
+      kernel.addLoader(new ListLoader([Exit]))
+      return kernel
+    })
+
+    await daemon.start()
+    cleanup(() => daemon.stop())
+
+    const client = new AceDaemonClient(daemon.socketPath)
+    assert.equal(await client.run(['exit']), 0)
+    assert.isFalse(app.isTerminated)
+  })
+
+  test('run commands using the cwd and env of the client', async ({ assert, cleanup }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    const daemon = new AceDaemon(app, async (commandName) => {
+      const kernel = createAceKernel(app, commandName)
+      kernel.addLoader(new ListLoader([Cwd]))
+      return kernel
+    })
+
+    await daemon.start()
+    cleanup(() => daemon.stop())
+
+    /**
+     * Sending the request directly, since the client and the
+     * daemon share the same process
+     */
+    const socket = connect(daemon.socketPath)
+    socket.write(
+      `${JSON.stringify({ argv: ['cwd'], cwd: tmpdir(), env: { DAEMON_GREETING: 'hello' }, colors: false })}\n`
+    )
+
+    const messages: AceDaemonMessage[] = []
+    await new Promise((resolve) => {
+      createInterface({ input: socket }).on('line', (line) => messages.push(JSON.parse(line)))
+      socket.on('close', resolve)
+    })
+
+    assert.deepEqual(messages, [
+      { type: 'output', stream: 'stdout', message: `${tmpdir()} hello` },
+      { type: 'exit', exitCode: 0 },
+    ])
+    assert.notEqual(process.cwd(), tmpdir())
+    assert.isUndefined(process.env.DAEMON_GREETING)
+  })
+
+  test('restrict the socket to the current user', async ({ assert, cleanup }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    const daemon = new AceDaemon(app, async (commandName) => createAceKernel(app, commandName))
+    await daemon.start()
+    cleanup(() => daemon.stop())
+
+    const socketStats = await stat(daemon.socketPath)
+    const socketsDirStats = await stat(getDaemonSocketsDir())
+
+    assert.equal(socketStats.mode & 0o777, 0o600)
+    assert.equal(socketsDirStats.mode & 0o777, 0o700)
+  }).skip(process.platform === 'win32', 'Named pipes are used on Windows')
+})
@@ -9,7 +9,7 @@
 
 import sinon from 'sinon'
 import { test } from '@japa/runner'
-import { HelpCommand } from '../../modules/ace/main.js'
+import { BaseCommand, HelpCommand, ListLoader, args, flags } from '../../modules/ace/main.js'
 import { IgnitorFactory } from '../../factories/core/ignitor.js'
 import { createAceKernel } from '../../modules/ace/create_kernel.js'
 
@@ -32,6 +32,20 @@ test.group('Kernel', () => {
         showNegatedVariantInHelp: true,
         description: 'Force enable or disable colorful output',
       },
+      {
+        name: 'json',
+        flagName: 'json',
+        required: false,
+        type: 'boolean',
+        description: 'Output the logs, the errors and the result of the command as JSON',
+      },
+      {
+        name: 'allow-dangerous',
+        flagName: 'allow-dangerous',
+        required: false,
+        type: 'boolean',
+        description: 'Run the dangerous commands in production without confirmation',
+      },
       {
         name: 'help',
         flagName: 'help',
@@ -129,3 +143,83 @@ test.group('Kernel', () => {
     assert.exists(kernel.getCommand('make:controller'))
   })
 })
+
+test.group('Kernel | Command palette', () => {
+  test('pick command and prompt for its args and flags', async ({ assert }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    class MakeController extends BaseCommand {
+      static commandName: string = 'make:controller'
+
+      @args.string()
+      declare name: string
+
+      @args.string({ required: false })
+      declare actions?: string
+
+      @flags.boolean()
+      declare resource: boolean
+
+      @flags.boolean()
+      declare api: boolean
+
+      @flags.string()
+      declare suffix?: string
+
+      async run() {
+        return [this.name, this.actions, this.resource, this.api, this.suffix]
+      }
+    }
+
+    const kernel = createAceKernel(app)
+    kernel.interactive = true
+    kernel.ui.switchMode('raw')
+    kernel.addLoader(new ListLoader([MakeController]))
+
+    await kernel.boot()
+    const commandIndex = kernel.getCommands().findIndex((command) => {
+      return command.commandName === 'make:controller'
+    })
+
+    kernel.prompt.trap('Select the command to run').chooseOption(commandIndex)
+    kernel.prompt.trap('Enter name').replyWith('user profiles')
+    kernel.prompt.trap('Select the flags to use').chooseOptions([0, 2])
+    kernel.prompt.trap('Enter --suffix').replyWith('ctrl')
+
+    await kernel.handle([])
+
+    assert.equal(kernel.exitCode, 0)
+    assert.deepEqual(kernel.getMainCommand()!.result, [
+      'user profiles',
+      undefined,
+      true,
+      undefined,
+      'ctrl',
+    ])
+    assert.deepEqual(kernel.ui.logger.getLogs(), [
+      {
+        message: `[ blue(info) ] You can run the command directly using "node ace make:controller 'user profiles' --resource --suffix ctrl"`,
+        stream: 'stdout',
+      },
+    ])
+  })
+
+  test('display the commands list when not interactive', async ({ assert }) => {
+    const ignitor = new IgnitorFactory().withCoreConfig().create(BASE_URL)
+
+    const app = ignitor.createApp('console')
+    await app.init()
+
+    const kernel = createAceKernel(app)
+    kernel.interactive = false
+    kernel.ui.switchMode('raw')
+
+    await kernel.handle([])
+
+    assert.equal(kernel.exitCode, 0)
+    assert.equal(kernel.getMainCommand()!.commandName, 'list')
+  })
+})
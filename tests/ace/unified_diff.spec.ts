@@ -0,0 +1,54 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { test } from '@japa/runner'
+import { createUnifiedDiff } from '../../modules/ace/unified_diff.js'
+
+test.group('Unified diff', () => {
+  test('return empty string when the contents are the same', ({ assert }) => {
+    assert.equal(createUnifiedDiff('.env', 'PORT=3333\n', 'PORT=3333\n'), '')
+  })
+
+  test('create diff for a new file', ({ assert }) => {
+    assert.equal(
+      createUnifiedDiff('.env', null, 'PORT=3333\nHOST=localhost\n'),
+      ['--- /dev/null', '+++ b/.env', '@@ -0,0 +1,2 @@', '+PORT=3333', '+HOST=localhost'].join('\n')
+    )
+  })
+
+  test('mark the lines without a new line at the end of the file', ({ assert }) => {
+    assert.equal(
+      createUnifiedDiff('.env', 'PORT=3333', 'PORT=3333\nHOST=localhost\n'),
+      [
+        '--- a/.env',
+        '+++ b/.env',
+        '@@ -1,1 +1,2 @@',
+        '-PORT=3333',
+        '\\ No newline at end of file',
+        '+PORT=3333',
+        '+HOST=localhost',
+      ].join('\n')
+    )
+  })
+
+  test('create separate hunks for the changes in large files', ({ assert }) => {
+    const before = Array.from({ length: 20000 }, (_, index) => `line ${index + 1}`)
+    const after = [...before]
+    after[99] = 'changed line 100'
+    after.splice(15000, 0, 'inserted line')
+
+    const diff = createUnifiedDiff('large.txt', `${before.join('\n')}\n`, `${after.join('\n')}\n`)
+    assert.deepEqual(
+      diff.split('\n').filter((line) => line.startsWith('@@')),
+      ['@@ -97,7 +97,7 @@', '@@ -14998,6 +14998,7 @@']
+    )
+    assert.include(diff, '-line 100\n+changed line 100')
+    assert.include(diff, '+inserted line')
+  })
+})
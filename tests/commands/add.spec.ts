@@ -210,6 +210,99 @@ test.group('Install', (group) => {
     })
   })
 
+  test('pass prompt answers to configure', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl, {
+      importer: (filePath) => import(join(filePath, `index.js?${Math.random()}`)),
+    })
+
+    await setupProject(fs, 'npm')
+    await setupPackage(
+      fs,
+      `
+        const driver = await command.prompt.ask('Enter driver', { name: 'driver' })
+        const useCache = await command.prompt.confirm('Enable cache?', { name: 'useCache' })
+        command.logger.log({ driver, useCache })
+      `
+    )
+    await fs.createJson('answers.json', { driver: 'redis' })
+
+    await ace.app.init()
+
+    ace.addLoader(new ListLoader([Configure]))
+    ace.ui.switchMode('raw')
+
+    const command = await ace.create(Add, [
+      new URL('node_modules/foo', fs.baseUrl).href,
+      '--dry-run',
+      '--answers=answers.json',
+      '--yes',
+    ])
+    await command.exec()
+
+    command.assertSucceeded()
+    assert.deepInclude(command.logger.getLogs(), {
+      message: { driver: 'redis', useCache: true },
+      stream: 'stdout',
+    })
+  })
+
+  test('install and configure local package', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl, {
+      importer: (filePath) => import(filePath),
+    })
+
+    await setupProject(fs, 'npm')
+    await fs.createJson('packages/billing/package.json', {
+      name: 'billing',
+      type: 'module',
+      main: 'index.js',
+    })
+    await fs.create(
+      'packages/billing/index.js',
+      `export async function configure(command) {
+        const codemods = await command.createCodemods()
+        await codemods.updateRcFile((rcFile) => {
+          rcFile.addProvider('billing/billing_provider')
+        })
+      }`
+    )
+
+    await ace.app.init()
+
+    ace.addLoader(new ListLoader([Configure]))
+    ace.ui.switchMode('raw')
+    ace.prompt.trap('install').accept()
+
+    const command = await ace.create(Add, ['./packages/billing'])
+    command.verbose = VERBOSE
+    await command.exec()
+
+    command.assertSucceeded()
+    command.assertLogMatches(/following command : grey\(npm add file:packages\/billing\)/)
+    await assert.fileContains('package.json', 'file:packages/billing')
+    await assert.fileContains('adonisrc.ts', 'billing/billing_provider')
+  })
+
+  test('install workspace package using the workspace protocol', async ({ fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+
+    await setupProject(fs, 'pnpm')
+    await fs.create('pnpm-workspace.yaml', ['packages:', '  - packages/*'].join('\n'))
+    await fs.createJson('packages/billing/package.json', { name: '@acme/billing' })
+
+    await ace.app.init()
+
+    ace.addLoader(new ListLoader([Configure]))
+    ace.ui.switchMode('raw')
+    ace.prompt.trap('install').reject()
+
+    const command = await ace.create(Add, ['workspace:billing'])
+    await command.exec()
+
+    command.assertLogMatches(/following command : grey\(pnpm add @acme\/billing@workspace:\*\)/)
+    command.assertLog('[ blue(info) ] Installation cancelled')
+  })
+
   test('should configure package', async ({ assert, fs }) => {
     const ace = await new AceFactory().make(fs.baseUrl, {
       importer: (filePath) => import(join(filePath, `index.js?${Math.random()}`)),
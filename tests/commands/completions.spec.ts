@@ -0,0 +1,178 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { test } from '@japa/runner'
+import Test from '../../commands/test.js'
+import Complete from '../../commands/complete.js'
+import Completions from '../../commands/completions.js'
+import { AceFactory } from '../../factories/core/ace.js'
+import MakeTest from '../../commands/make/test.js'
+import ListRoutes from '../../commands/list/routes.js'
+import MakeMiddleware from '../../commands/make/middleware.js'
+import type { IgnitorOptions } from '../../src/types.js'
+import { ListLoader } from '../../modules/ace/main.js'
+import { IgnitorFactory } from '../../factories/core/ignitor.js'
+
+/**
+ * Creates the ace kernel with a few commands to complete
+ */
+async function createKernel(baseUrl: URL, options?: IgnitorOptions) {
+  const ignitor = new IgnitorFactory()
+    .merge({
+      rcFileContents: {
+        providers: [() => import('../../providers/app_provider.js')],
+        tests: {
+          suites: [
+            { name: 'unit', files: ['tests/unit/**/*.spec.ts'] },
+            { name: 'functional', files: ['tests/functional/**/*.spec.ts'] },
+          ],
+        },
+      },
+    })
+    .withCoreConfig()
+    .create(baseUrl, options)
+
+  const ace = await new AceFactory().make(ignitor)
+  ace.addLoader(new ListLoader([Completions, Complete, ListRoutes, MakeMiddleware, MakeTest, Test]))
+  await ace.boot()
+  ace.ui.switchMode('raw')
+  return ace
+}
+
+/**
+ * Returns the suggestions printed by the "__complete" command
+ */
+async function complete(ace: Awaited<ReturnType<typeof createKernel>>, words: string[]) {
+  ace.ui.logger.flushLogs()
+  const command = await ace.create(Complete, ['--', ...words])
+  await command.exec()
+  command.assertSucceeded()
+  return ace.ui.logger.getLogs().map(({ message }) => message)
+}
+
+test.group('Completions', () => {
+  test('print completion script for a shell', async ({ assert, fs }) => {
+    const ace = await createKernel(fs.baseUrl)
+
+    const command = await ace.create(Completions, ['bash'])
+    await command.exec()
+
+    command.assertSucceeded()
+    const script = ace.ui.logger.getLogs()[0].message
+    assert.include(script, '_node_ace_completions() {')
+    assert.include(script, 'node ace __complete -- "${words[@]:2}"')
+    assert.include(script, 'complete -o default -F _node_ace_completions node')
+  })
+
+  test('print completion scripts for zsh, fish and powershell', async ({ assert, fs }) => {
+    const ace = await createKernel(fs.baseUrl)
+
+    for (let shell of ['zsh', 'fish', 'powershell']) {
+      ace.ui.logger.flushLogs()
+      const command = await ace.create(Completions, [shell])
+      await command.exec()
+
+      command.assertSucceeded()
+      assert.include(ace.ui.logger.getLogs()[0].message, 'node ace __complete --')
+    }
+  })
+
+  test('fail when shell is not supported', async ({ fs }) => {
+    const ace = await createKernel(fs.baseUrl)
+
+    const command = await ace.create(Completions, ['tcsh'])
+    await command.exec()
+
+    command.assertFailed()
+    command.assertLog(
+      '[ red(error) ] Unsupported shell "tcsh". Select from "bash, zsh, fish, powershell"',
+      'stderr'
+    )
+  })
+
+  test('hide the complete command from the commands list', async ({ assert, fs }) => {
+    const ace = await createKernel(fs.baseUrl)
+    const commands = ace.getNamespaceCommands().map(({ commandName }) => commandName)
+
+    assert.include(commands, 'completions')
+    assert.notInclude(commands, '__complete')
+    assert.isNotNull(ace.getCommand('__complete'))
+  })
+})
+
+test.group('Completions | suggestions', () => {
+  test('suggest command names', async ({ assert, fs }) => {
+    const ace = await createKernel(fs.baseUrl)
+
+    assert.includeMembers(await complete(ace, ['']), ['completions', 'make:middleware', 'test'])
+    assert.notInclude(await complete(ace, ['']), '__complete')
+    assert.deepEqual(await complete(ace, ['make:']), ['make:middleware', 'make:test'])
+  })
+
+  test('suggest global and command flags', async ({ assert, fs }) => {
+    const ace = await createKernel(fs.baseUrl)
+
+    assert.deepEqual(await complete(ace, ['--']), [
+      '--ansi',
+      '--no-ansi',
+      '--json',
+      '--allow-dangerous',
+      '--help',
+    ])
+    assert.deepEqual(await complete(ace, ['make:middleware', '--s']), ['--stack'])
+    assert.includeMembers(await complete(ace, ['make:middleware', '-']), [
+      '--stack',
+      '-s',
+      '--help',
+    ])
+  })
+
+  test('suggest static values for flags', async ({ assert, fs }) => {
+    const ace = await createKernel(fs.baseUrl)
+
+    assert.deepEqual(await complete(ace, ['make:middleware', 'auth', '--stack', '']), [
+      'server',
+      'router',
+      'named',
+    ])
+    assert.deepEqual(await complete(ace, ['make:middleware', 'auth', '-s', 'r']), ['router'])
+    assert.deepEqual(await complete(ace, ['make:middleware', '--stack=n']), ['--stack=named'])
+  })
+
+  test('suggest values for args and flags from dynamic sources', async ({ assert, fs }) => {
+    const ace = await createKernel(fs.baseUrl)
+
+    assert.deepEqual(await complete(ace, ['test', '']), ['unit', 'functional'])
+    assert.deepEqual(await complete(ace, ['test', 'unit', '--files', 'foo', 'f']), ['functional'])
+    assert.deepEqual(await complete(ace, ['make:test', 'users', '--suite', '']), [
+      'unit',
+      'functional',
+    ])
+  })
+
+  test('suggest route names without starting the app', async ({ assert, fs }) => {
+    const ace = await createKernel(fs.baseUrl, {
+      importer: async (filePath) => {
+        if (filePath === '#start/routes') {
+          const router = await ace.app.container.make('router')
+          router.get('users', () => {}).as('users.index')
+          router.get('posts', () => {}).as('posts.index')
+        }
+      },
+    })
+
+    assert.deepEqual(await complete(ace, ['list:routes', 'u']), ['users.index'])
+    assert.equal(ace.app.getState(), 'booted')
+  })
+
+  test('return no suggestions for unknown commands', async ({ assert, fs }) => {
+    const ace = await createKernel(fs.baseUrl)
+    assert.deepEqual(await complete(ace, ['foo', '']), [])
+  })
+})
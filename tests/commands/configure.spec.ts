@@ -342,10 +342,318 @@ test.group('Configure command | run', (group) => {
       stream: 'stdout',
     })
 
-    const lastLog = logs[logs.length - 1]
     assert.equal(command.exitCode, 1)
-    console.log(lastLog.message)
-    assert.include(lastLog.message, '[ red(error) ] Process exited with non-zero status')
+    assert.isTrue(
+      logs.some(({ message }) =>
+        message.includes('[ red(error) ] Process exited with non-zero status')
+      )
+    )
+    command.assertLog(
+      '[ yellow(warn) ] Rolling back the changes made while configuring "./dummy-pkg.js?v=6"'
+    )
+  })
+
+  test('rollback the modified files when the configure hook fails', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl, {
+      importer: (filePath) => {
+        return import(new URL(filePath, fs.baseUrl).href)
+      },
+    })
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create('.env', 'PORT=3333')
+    await fs.create('adonisrc.ts', 'export default defineConfig({})')
+    await fs.create('stubs/main.stub', `{{{ exports({ to: app.makePath('config/dummy.ts') }) }}}`)
+    await fs.create(
+      'dummy-pkg.js',
+      `
+      export async function configure (command) {
+        const codemods = await command.createCodemods()
+        await codemods.makeUsingStub(command.app.makePath('stubs'), 'main.stub', {})
+        await codemods.defineEnvVariables({ DUMMY_KEY: 'secret' })
+
+        const rcFileCodemods = await command.createCodemods()
+        await rcFileCodemods.updateRcFile((rcFile) => {
+          rcFile.addProvider('dummy-pkg/provider')
+        })
+
+        throw new Error('Something went wrong')
+      }
+    `
+    )
+
+    const command = await ace.create(Configure, ['./dummy-pkg.js?v=7'])
+    await command.exec()
+
+    command.assertFailed()
+    await assert.fileEquals('.env', 'PORT=3333')
+    await assert.fileEquals('adonisrc.ts', 'export default defineConfig({})')
+    await assert.fileNotExists('config/dummy.ts')
+
+    command.assertLog(
+      '[ yellow(warn) ] Rolling back the changes made while configuring "./dummy-pkg.js?v=7"'
+    )
+    command.assertLog('green(DONE:)    restore adonisrc.ts')
+    command.assertLog('green(DONE:)    restore .env')
+    command.assertLog('green(DONE:)    delete config/dummy.ts')
+  })
+
+  test('rollback the modified files when a codemod fails', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl, {
+      importer: (filePath) => {
+        return import(new URL(filePath, fs.baseUrl).href)
+      },
+    })
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create('.env', 'PORT=3333')
+    await fs.create(
+      'dummy-pkg.js',
+      `
+      export async function configure (command) {
+        const codemods = await command.createCodemods()
+        await codemods.defineEnvVariables({ DUMMY_KEY: 'secret' })
+        await codemods.updateRcFile((rcFile) => {
+          rcFile.addProvider('dummy-pkg/provider')
+        })
+      }
+    `
+    )
+
+    const command = await ace.create(Configure, ['./dummy-pkg.js?v=12'])
+    await command.exec()
+
+    command.assertFailed()
+    await assert.fileEquals('.env', 'PORT=3333')
+    command.assertLog(
+      '[ yellow(warn) ] Rolling back the changes made while configuring "./dummy-pkg.js?v=12"'
+    )
+    command.assertLog('green(DONE:)    restore .env')
+  })
+
+  test('keep the modified files when rollback is disabled', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl, {
+      importer: (filePath) => {
+        return import(new URL(filePath, fs.baseUrl).href)
+      },
+    })
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.create('.env', 'PORT=3333')
+    await fs.create(
+      'dummy-pkg.js',
+      `
+      export async function configure (command) {
+        const codemods = await command.createCodemods()
+        await codemods.defineEnvVariables({ DUMMY_KEY: 'secret' })
+        throw new Error('Something went wrong')
+      }
+    `
+    )
+
+    const command = await ace.create(Configure, ['./dummy-pkg.js?v=8', '--no-rollback'])
+    await command.exec()
+
+    command.assertFailed()
+    await assert.fileEquals('.env', 'PORT=3333\nDUMMY_KEY=secret')
+  })
+
+  test('read prompt answers from the answers file', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl, {
+      importer: (filePath) => {
+        return import(new URL(filePath, fs.baseUrl).href)
+      },
+    })
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('answers.json', { driver: 'redis', useCache: false })
+    await fs.create(
+      'dummy-pkg.js',
+      `
+      export async function configure (command) {
+        const driver = await command.prompt.choice('Select driver', ['memory', 'redis'], {
+          name: 'driver',
+        })
+        const useCache = await command.prompt.confirm('Enable cache?', { name: 'useCache' })
+        command.result = { driver, useCache }
+      }
+    `
+    )
+
+    const command = await ace.create(Configure, ['./dummy-pkg.js?v=9', '--answers=answers.json'])
+    await command.exec()
+
+    command.assertSucceeded()
+    assert.deepEqual(command.result, { driver: 'redis', useCache: false })
+  })
+
+  test('accept the default answers using the yes flag', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl, {
+      importer: (filePath) => {
+        return import(new URL(filePath, fs.baseUrl).href)
+      },
+    })
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('answers.json', { port: '4000' })
+    await fs.create(
+      'dummy-pkg.js',
+      `
+      export async function configure (command) {
+        const driver = await command.prompt.choice('Select driver', ['memory', 'redis'], {
+          name: 'driver',
+          default: 1,
+        })
+        const port = await command.prompt.ask('Enter port', { name: 'port', default: '3333' })
+        const useCache = await command.prompt.confirm('Enable cache?', { name: 'useCache' })
+        command.result = { driver, port, useCache }
+      }
+    `
+    )
+
+    const command = await ace.create(Configure, [
+      './dummy-pkg.js?v=10',
+      '--answers=answers.json',
+      '--yes',
+    ])
+    await command.exec()
+
+    command.assertSucceeded()
+    assert.deepEqual(command.result, { driver: 'redis', port: '4000', useCache: true })
+  })
+
+  test('fail when a prompt does not have an answer', async ({ fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl, {
+      importer: (filePath) => {
+        return import(new URL(filePath, fs.baseUrl).href)
+      },
+    })
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.create(
+      'dummy-pkg.js',
+      `
+      export async function configure (command) {
+        await command.prompt.ask('Enter port', { name: 'port' })
+      }
+    `
+    )
+
+    const command = await ace.create(Configure, ['./dummy-pkg.js?v=11', '--yes'])
+    ace.errorHandler.render = async function (error: Error) {
+      command.logger.fatal(error.cause as Error)
+    }
+    await command.exec()
+
+    command.assertFailed()
+    command.assertLogMatches(
+      /Missing answer for prompt "port" \(Enter port\)\. Define it inside the answers file/
+    )
+  })
+})
+
+test.group('Configure command | local packages', (group) => {
+  group.each.disableTimeout()
+
+  test('configure package using the path to its directory', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl, {
+      importer: (filePath) => {
+        return import(new URL(filePath, fs.baseUrl).href)
+      },
+    })
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('packages/billing/package.json', {
+      name: '@acme/billing',
+      type: 'module',
+      exports: { '.': { import: './build/index.js' } },
+    })
+    await fs.create(
+      'packages/billing/build/index.js',
+      `
+      export const stubsRoot = './stubs'
+      export function configure (command) {
+        command.result = 'configured billing'
+      }
+    `
+    )
+
+    const command = await ace.create(Configure, ['./packages/billing'])
+    await command.exec()
+
+    command.assertSucceeded()
+    assert.equal(command.result, 'configured billing')
+    assert.equal(command.stubsRoot, './stubs')
+  })
+
+  test('configure workspace package using its name', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(new URL('apps/web/', fs.baseUrl), {
+      importer: (filePath) => {
+        return import(filePath)
+      },
+    })
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.create(
+      'pnpm-workspace.yaml',
+      ['packages:', "  - 'apps/*'", "  - 'packages/*'"].join('\n')
+    )
+    await fs.createJson('apps/web/package.json', { name: 'web', type: 'module' })
+    await fs.createJson('packages/billing/package.json', {
+      name: '@acme/billing',
+      type: 'module',
+      main: 'main.js',
+    })
+    await fs.create(
+      'packages/billing/main.js',
+      `
+      export function configure (command) {
+        command.result = 'configured workspace billing'
+      }
+    `
+    )
+
+    const command = await ace.create(Configure, ['workspace:billing'])
+    await command.exec()
+
+    command.assertSucceeded()
+    assert.equal(command.result, 'configured workspace billing')
+  })
+
+  test('fail when workspace package does not exist', async ({ fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('package.json', { name: 'web', workspaces: ['packages/*'] })
+
+    const command = await ace.create(Configure, ['workspace:billing'])
+    ace.errorHandler.render = async function (error: Error) {
+      command.logger.fatal(error)
+    }
+    await command.exec()
+
+    command.assertFailed()
+    command.assertLogMatches(/Cannot find workspace package "billing"/)
   })
 })
 
@@ -420,6 +728,7 @@ test.group('Configure command | health checks', (group) => {
 
     await fs.createJson('tsconfig.json', {})
     await fs.create('adonisrc.ts', 'export default defineConfig({})')
+    await fs.create('start/routes.ts', `import router from '@adonisjs/core/services/router'`)
 
     const command = await ace.create(Configure, ['health_checks'])
 
@@ -434,6 +743,10 @@ test.group('Configure command | health checks', (group) => {
         message: 'green(DONE:)    create app/controllers/health_checks_controller.ts',
         stream: 'stdout',
       },
+      {
+        message: 'green(DONE:)    update start/routes.ts file',
+        stream: 'stdout',
+      },
     ])
 
     await assert.fileContains('start/health.ts', [
@@ -446,5 +759,9 @@ test.group('Configure command | health checks', (group) => {
       'const report = await healthChecks.run()',
       'export default class HealthChecksController',
     ])
+    await assert.fileContains('start/routes.ts', [
+      `const HealthChecksController = () => import('#controllers/health_checks_controller')`,
+      `router.get('/health', [HealthChecksController])`,
+    ])
   })
 })
@@ -0,0 +1,137 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { test } from '@japa/runner'
+import { ListLoader } from '../../modules/ace/main.js'
+import DaemonStart from '../../commands/daemon/start.js'
+import { BaseCommand } from '../../modules/ace/commands.js'
+import { IgnitorFactory } from '../../factories/core/ignitor.js'
+import { AceDaemonClient, getDaemonSocketPath } from '../../modules/ace/daemon_client.js'
+
+test.group('Daemon start', (group) => {
+  group.each.setup(() => {
+    return () => {
+      process.exitCode = undefined
+    }
+  })
+
+  test('start the daemon and run commands through it', async ({ assert, cleanup, fs }) => {
+    cleanup(async () => {
+      await ignitor.terminate()
+    })
+
+    let executions = 0
+    class Greet extends BaseCommand {
+      static commandName: string = 'greet'
+      async run() {
+        executions++
+      }
+    }
+
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .create(fs.baseUrl)
+
+    await ignitor
+      .ace()
+      .useDaemon()
+      .configure(async (app) => {
+        const kernel = await app.container.make('ace')
+        kernel.addLoader(new ListLoader([DaemonStart, Greet]))
+      })
+      .handle(['daemon:start'])
+
+    assert.equal(ignitor.getApp()?.getState(), 'ready')
+
+    /**
+     * Running the command through a different ignitor process. The
+     * app of the process is never initiated
+     */
+    const anotherIgnitor = new IgnitorFactory().withCoreConfig().create(fs.baseUrl)
+    await anotherIgnitor.ace().useDaemon().handle(['greet'])
+
+    assert.equal(executions, 1)
+    assert.equal(process.exitCode, 0)
+    assert.equal(anotherIgnitor.getApp()?.getState(), 'created')
+
+    await ignitor.terminate()
+    assert.isFalse(await new AceDaemonClient(getDaemonSocketPath(fs.baseUrl)).isRunning())
+  })
+
+  test('report error when the daemon is already running', async ({ assert, cleanup, fs }) => {
+    cleanup(async () => {
+      await ignitor.terminate()
+      await anotherIgnitor.terminate()
+    })
+
+    const createIgnitor = () =>
+      new IgnitorFactory()
+        .merge({
+          rcFileContents: {
+            providers: [() => import('../../providers/app_provider.js')],
+          },
+        })
+        .withCoreConfig()
+        .create(fs.baseUrl)
+
+    const ignitor = createIgnitor()
+    await ignitor
+      .ace()
+      .useDaemon()
+      .configure(async (app) => {
+        const kernel = await app.container.make('ace')
+        kernel.addLoader(new ListLoader([DaemonStart]))
+      })
+      .handle(['daemon:start'])
+
+    const anotherIgnitor = createIgnitor()
+    await anotherIgnitor
+      .ace()
+      .useDaemon()
+      .configure(async (app) => {
+        const kernel = await app.container.make('ace')
+        kernel.ui.switchMode('raw')
+        kernel.addLoader(new ListLoader([DaemonStart]))
+      })
+      .handle(['daemon:start'])
+
+    assert.equal(process.exitCode, 1)
+    assert.equal(anotherIgnitor.getApp()?.getState(), 'terminated')
+  })
+  test('report error when the daemon is not enabled', async ({ assert, cleanup, fs }) => {
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .create(fs.baseUrl)
+
+    cleanup(() => ignitor.terminate())
+
+    await ignitor
+      .ace()
+      .configure(async (app) => {
+        const kernel = await app.container.make('ace')
+        kernel.ui.switchMode('raw')
+        kernel.addLoader(new ListLoader([DaemonStart]))
+      })
+      .handle(['daemon:start'])
+
+    assert.equal(process.exitCode, 1)
+    assert.equal(ignitor.getApp()?.getState(), 'terminated')
+    assert.isFalse(await new AceDaemonClient(getDaemonSocketPath(fs.baseUrl)).isRunning())
+  })
+})
@@ -113,4 +113,36 @@ test.group('Env Add command', () => {
     await assert.fileContains('.env.example', 'MY_VARIABLE_NAME=')
     await assert.fileContains('./start/env.ts', 'MY_VARIABLE_NAME: Env.schema.string()')
   })
+
+  test('add env variable to the selected files along with a comment', async ({ assert, fs }) => {
+    await fs.createJson('tsconfig.json', {})
+    await fs.create('.env', 'PORT=3333\n')
+    await fs.create('.env.test', 'PORT=3333\n')
+    await fs.create(
+      './start/env.ts',
+      `import { Env } from '@adonisjs/core/env'
+      export default await Env.create(new URL('../', import.meta.url), {})`
+    )
+
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    const command = await ace.create(EnvAdd, [
+      'mail_mailer',
+      'memory',
+      '--type=string',
+      '--files=.env.test',
+      '--comment=Use the memory mailer during tests',
+    ])
+    await command.exec()
+
+    command.assertLog('green(DONE:)    update .env.test file')
+    await assert.fileEquals('.env', 'PORT=3333\n')
+    await assert.fileEquals(
+      '.env.test',
+      ['PORT=3333', '# Use the memory mailer during tests', 'MAIL_MAILER=memory', ''].join('\n')
+    )
+    await assert.fileContains('./start/env.ts', 'MAIL_MAILER: Env.schema.string()')
+  })
 })
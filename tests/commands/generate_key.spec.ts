@@ -92,9 +92,39 @@ test.group('Generate key', () => {
     ace.ui.switchMode('raw')
 
     const command = await ace.create(GenerateKey, ['--force'])
+    command.prompt.trap('confirmDangerousCommand').accept()
     await command.exec()
 
     await assert.fileContains('.env', 'APP_KEY=')
     await assert.fileContains('.env.example', 'APP_KEY=')
   })
+
+  test('do not write to the file when --force is not confirmed in production', async ({
+    assert,
+    fs,
+    cleanup,
+  }) => {
+    await fs.create('.env', '')
+    await fs.create('.env.example', '')
+
+    cleanup(() => {
+      delete process.env.NODE_ENV
+    })
+
+    process.env.NODE_ENV = 'production'
+
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    const command = await ace.create(GenerateKey, ['--force'])
+    command.prompt.trap('confirmDangerousCommand').reject()
+    await command.exec()
+
+    await assert.fileEquals('.env', '')
+    await assert.fileEquals('.env.example', '')
+
+    assert.equal(command.exitCode, 1)
+    command.assertLog('[ red(error) ] Cancelled running "generate:key" command', 'stderr')
+  })
 })
@@ -0,0 +1,107 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { test } from '@japa/runner'
+import { AceFactory } from '../../factories/core/ace.js'
+import InspectBoot from '../../commands/inspect_boot.js'
+import { IgnitorFactory } from '../../factories/core/ignitor.js'
+
+/**
+ * Creates the ace kernel and starts the app with the
+ * app provider
+ */
+async function createKernel(baseUrl: URL) {
+  const ignitor = new IgnitorFactory()
+    .merge({ rcFileContents: { providers: [() => import('../../providers/app_provider.js')] } })
+    .withCoreConfig()
+    .create(baseUrl, { profileBoot: true })
+
+  const ace = await new AceFactory().make(ignitor)
+  await ace.app.boot()
+  await ace.app.start(() => {})
+  ace.ui.switchMode('raw')
+  return ace
+}
+
+test.group('Inspect boot', () => {
+  test('display boot timings as a table', async ({ assert, fs, cleanup }) => {
+    const ace = await createKernel(fs.baseUrl)
+    cleanup(() => ace.app.terminate())
+
+    const command = await ace.create(InspectBoot, [])
+    await command.exec()
+
+    command.assertSucceeded()
+    const logs = ace.ui.logger.getLogs()
+    assert.match(logs[0].message, /Type.*Name.*Phase.*Duration/)
+    assert.isTrue(
+      logs.some(({ message }) => /provider.*AppServiceProvider.*register/.test(message))
+    )
+    assert.match(logs[logs.length - 1].message, /Application ready in \d+\.\d{2}ms/)
+  })
+
+  test('display boot timings as JSON', async ({ assert, fs, cleanup }) => {
+    const ace = await createKernel(fs.baseUrl)
+    cleanup(() => ace.app.terminate())
+
+    const command = await ace.create(InspectBoot, ['--json'])
+    await command.exec()
+
+    command.assertSucceeded()
+    const report = JSON.parse(ace.ui.logger.getLogs()[0].message)
+    assert.isNumber(report.duration)
+    assert.containsSubset(report.entries, [
+      { kind: 'provider', name: 'AppServiceProvider', phase: 'boot' },
+    ])
+  })
+
+  test('write boot timings as a chrome trace', async ({ assert, fs, cleanup }) => {
+    const ace = await createKernel(fs.baseUrl)
+    cleanup(() => ace.app.terminate())
+
+    const command = await ace.create(InspectBoot, ['--trace=tmp/boot.json'])
+    await command.exec()
+
+    command.assertSucceeded()
+    command.assertLog('[ green(success) ] Boot trace written to "tmp/boot.json"')
+
+    const trace = await fs.contentsJson('tmp/boot.json')
+    assert.containsSubset(trace.traceEvents, [
+      { name: 'AppServiceProvider.boot', cat: 'provider', ph: 'X' },
+    ])
+  })
+
+  test('fail when the app is running in another environment', async ({ fs, cleanup }) => {
+    const ace = await createKernel(fs.baseUrl)
+    cleanup(() => ace.app.terminate())
+
+    const command = await ace.create(InspectBoot, ['--environment=web'])
+    await command.exec()
+
+    command.assertFailed()
+    command.assertLog(
+      '[ red(error) ] Cannot profile the "web" environment. The application is running in the "console" environment',
+      'stderr'
+    )
+  })
+
+  test('fail when the environment is invalid', async ({ fs, cleanup }) => {
+    const ace = await createKernel(fs.baseUrl)
+    cleanup(() => ace.app.terminate())
+
+    const command = await ace.create(InspectBoot, ['--environment=staging'])
+    await command.exec()
+
+    command.assertFailed()
+    command.assertLog(
+      '[ red(error) ] Invalid environment "staging". Select from "console, web, test, repl, worker"',
+      'stderr'
+    )
+  })
+})
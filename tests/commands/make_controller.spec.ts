@@ -334,4 +334,28 @@ test.group('Make controller', () => {
       },
     ])
   })
+
+  test('preview the controller as a diff in dry-run mode', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    const command = await ace.create(MakeControllerCommand, ['user', '--dry-run'])
+    await command.exec()
+
+    await assert.fileNotExists('app/controllers/users_controller.ts')
+
+    const logs = ace.ui.logger.getLogs()
+    assert.equal(command.exitCode, 0)
+    assert.lengthOf(logs, 3)
+    assert.deepEqual(logs[0], {
+      message: 'green(DONE:)    create app/controllers/users_controller.ts',
+      stream: 'stdout',
+    })
+    assert.match(logs[1].message, /^bold\(--- \/dev\/null\)\nbold\(\+\+\+ b\/app\/controllers/)
+    assert.deepEqual(logs[2], {
+      message: '[ blue(info) ] Dry run completed. The changes were not written to the disk',
+      stream: 'stdout',
+    })
+  })
 })
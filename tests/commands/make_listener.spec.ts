@@ -70,4 +70,65 @@ test.group('Make listener', () => {
       },
     ])
   })
+
+  test('register the listener for the event when using --register flag', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+
+    ace.addLoader(new ListLoader([MakeEventCommand]))
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    await fs.createJson('tsconfig.json', {})
+    await fs.create('adonisrc.ts', 'export default defineConfig({})')
+
+    const command = await ace.create(MakeListenerCommand, [
+      'sendEmail',
+      '-e=orderShipped',
+      '--register',
+    ])
+    await command.exec()
+
+    const { contents } = await new StubsFactory().prepare('make/listener/for_event.stub', {
+      entity: ace.app.generators.createEntity('sendEmail'),
+      event: ace.app.generators.createEntity('orderShipped'),
+    })
+
+    const { contents: eventContents } = await new StubsFactory().prepare('make/event/main.stub', {
+      entity: ace.app.generators.createEntity('orderShipped'),
+    })
+
+    await assert.fileEquals('app/listeners/send_email.ts', contents)
+    await assert.fileEquals('app/events/order_shipped.ts', eventContents)
+
+    assert.deepEqual(ace.ui.logger.getLogs(), [
+      {
+        message: 'green(DONE:)    create app/events/order_shipped.ts',
+        stream: 'stdout',
+      },
+      {
+        message: 'green(DONE:)    create app/listeners/send_email.ts',
+        stream: 'stdout',
+      },
+      {
+        message: 'green(DONE:)    create start/events.ts',
+        stream: 'stdout',
+      },
+      {
+        message: 'green(DONE:)    update adonisrc.ts file',
+        stream: 'stdout',
+      },
+    ])
+
+    await assert.fileEquals(
+      'start/events.ts',
+      [
+        `import emitter from '@adonisjs/core/services/emitter'`,
+        `import OrderShipped from '#events/order_shipped'`,
+        `const SendEmail = () => import('#listeners/send_email')`,
+        'emitter.on(OrderShipped, [SendEmail])',
+        '',
+      ].join('\n')
+    )
+    await assert.fileContains('adonisrc.ts', `() => import('#start/events')`)
+  })
 })
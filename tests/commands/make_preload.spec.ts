@@ -136,7 +136,7 @@ test.group('Make preload file', () => {
     await command.exec()
 
     command.assertLog(
-      '[ red(error) ] Invalid environment(s) "foo". Only "web,console,test,repl" are allowed'
+      '[ red(error) ] Invalid environment(s) "foo". Only "web,console,test,repl,worker" are allowed'
     )
   })
 })
@@ -137,6 +137,24 @@ test.group('Make provider', () => {
     ])
   })
 
+  test('create provider class for the worker environment', async ({ assert, fs }) => {
+    await fs.createJson('tsconfig.json', {})
+    await fs.create('adonisrc.ts', `export default defineConfig({})`)
+
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    const command = await ace.create(MakeProvider, ['app', '-e=worker', '--register'])
+    await command.exec()
+
+    command.assertSucceeded()
+    await assert.fileContains('adonisrc.ts', [
+      `() => import('#providers/app_provider')`,
+      `environment: ['worker']`,
+    ])
+  })
+
   test('show error when selected environment is invalid', async ({ assert, fs }) => {
     await fs.createJson('tsconfig.json', {})
     await fs.create('adonisrc.ts', `export default defineConfig({})`)
@@ -152,7 +170,7 @@ test.group('Make provider', () => {
     assert.deepEqual(ace.ui.logger.getLogs(), [
       {
         message:
-          '[ red(error) ] Invalid environment(s) "foo". Only "web,console,test,repl" are allowed',
+          '[ red(error) ] Invalid environment(s) "foo". Only "web,console,test,repl,worker" are allowed',
         stream: 'stderr',
       },
     ])
@@ -0,0 +1,201 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { test } from '@japa/runner'
+import type { FileSystem } from '@japa/file-system'
+
+import Remove from '../../commands/remove.js'
+import { AceFactory } from '../../factories/core/ace.js'
+
+const VERBOSE = !!process.env.CI
+
+/**
+ * Setup a fake adonis project in the file system, with the "foo"
+ * package installed from the packages directory
+ */
+async function setupProject(fs: FileSystem, unconfigureContent?: string) {
+  await fs.create(
+    'package.json',
+    JSON.stringify({ type: 'module', name: 'test', dependencies: { foo: 'file:packages/foo' } })
+  )
+  await fs.create('package-lock.json', '')
+
+  await fs.create(
+    'packages/foo/package.json',
+    JSON.stringify({ type: 'module', name: 'foo', main: 'index.js' })
+  )
+  await fs.create(
+    'packages/foo/index.js',
+    unconfigureContent === undefined
+      ? 'export async function configure(command) {}'
+      : `export async function unconfigure(command) { ${unconfigureContent} }`
+  )
+
+  await fs.create('tsconfig.json', JSON.stringify({ compilerOptions: {} }))
+  await fs.create(
+    'adonisrc.ts',
+    `export default defineConfig({ providers: [() => import('foo/foo_provider')] })`
+  )
+}
+
+/**
+ * Creates the ace kernel importing the packages from the
+ * packages directory
+ */
+function createAce(fs: FileSystem) {
+  return new AceFactory().make(fs.baseUrl, {
+    importer: (filePath) => {
+      return import(new URL(`packages/${filePath}/index.js?${Math.random()}`, fs.baseUrl).href)
+    },
+  })
+}
+
+test.group('Remove', (group) => {
+  group.tap((t) => t.disableTimeout())
+
+  test('run the unconfigure hook and uninstall the package', async ({ assert, fs }) => {
+    const ace = await createAce(fs)
+    await setupProject(
+      fs,
+      `const codemods = await command.createCodemods()
+       await codemods.removeFromRcFile({ providers: ['foo/foo_provider'] })`
+    )
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+    ace.prompt.trap('uninstall').accept()
+
+    const command = await ace.create(Remove, ['foo'])
+    command.verbose = VERBOSE
+    await command.exec()
+
+    command.assertSucceeded()
+    command.assertLog('green(DONE:)    update adonisrc.ts file')
+    command.assertLog('[ green(success) ] Unconfigured and uninstalled green(foo)')
+
+    await assert.fileNotContains('adonisrc.ts', 'foo/foo_provider')
+    const pkgJson = await fs.contentsJson('package.json')
+    assert.deepEqual(pkgJson.dependencies ?? {}, {})
+  })
+
+  test('uninstall the package without the unconfigure hook', async ({ assert, fs }) => {
+    const ace = await createAce(fs)
+    await setupProject(fs)
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+    ace.prompt.trap('uninstall').accept()
+
+    const command = await ace.create(Remove, ['foo'])
+    command.verbose = VERBOSE
+    await command.exec()
+
+    command.assertSucceeded()
+    command.assertLog(
+      '[ yellow(warn) ] The module "foo" does not export the unconfigure hook. Make sure to remove its configuration manually'
+    )
+
+    await assert.fileContains('adonisrc.ts', 'foo/foo_provider')
+    const pkgJson = await fs.contentsJson('package.json')
+    assert.deepEqual(pkgJson.dependencies ?? {}, {})
+  })
+
+  test('do not uninstall the package when the unconfigure hook fails', async ({ assert, fs }) => {
+    const ace = await createAce(fs)
+    await setupProject(fs, 'throw new Error("Invalid unconfigure")')
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+    ace.prompt.trap('uninstall').accept()
+
+    const command = await ace.create(Remove, ['foo'])
+    ace.errorHandler.render = async function (error: Error) {
+      command.logger.fatal(error)
+    }
+    await command.exec()
+
+    command.assertExitCode(1)
+    command.assertLogMatches(/Unable to unconfigure package "foo"/)
+    await assert.fileContains('package.json', 'file:packages/foo')
+  })
+
+  test('do not uninstall the package when a codemod fails', async ({ assert, fs }) => {
+    const ace = await createAce(fs)
+    await setupProject(
+      fs,
+      `const codemods = await command.createCodemods()
+       await codemods.registerBindings('providers/missing_provider.ts', [
+         { method: 'singleton', binding: 'foo', factory: '() => ({})' },
+       ])`
+    )
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+    ace.prompt.trap('uninstall').accept()
+
+    const command = await ace.create(Remove, ['foo'])
+    await command.exec()
+
+    command.assertExitCode(1)
+    command.assertLogMatches(/FAILED:.*update providers\/missing_provider.ts file/)
+    assert.notInclude(
+      ace.ui.logger.getLogs().map(({ message }) => message),
+      '[ green(success) ] Unconfigured and uninstalled green(foo)'
+    )
+    await assert.fileContains('package.json', 'file:packages/foo')
+  })
+
+  test('preview the unconfigure changes in dry-run mode', async ({ assert, fs }) => {
+    const ace = await createAce(fs)
+    await setupProject(
+      fs,
+      `const codemods = await command.createCodemods()
+       await codemods.removeFromRcFile({ providers: ['foo/foo_provider'] })`
+    )
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    const command = await ace.create(Remove, ['foo', '--dry-run'])
+    await command.exec()
+
+    command.assertSucceeded()
+    command.assertLog('[ blue(info) ] Skipping the removal of green(foo) in dry-run mode')
+    command.assertLogMatches(/red\(-export default defineConfig/)
+    command.assertLog('[ blue(info) ] Dry run completed. The changes were not written to the disk')
+
+    await assert.fileContains('adonisrc.ts', 'foo/foo_provider')
+    await assert.fileContains('package.json', 'file:packages/foo')
+  })
+
+  test('remove edge provider and meta files', async ({ assert, fs }) => {
+    const ace = await new AceFactory().make(fs.baseUrl)
+    await fs.create('tsconfig.json', JSON.stringify({ compilerOptions: {} }))
+    await fs.create(
+      'adonisrc.ts',
+      [
+        'export default defineConfig({',
+        `  providers: [() => import('@adonisjs/core/providers/edge_provider')],`,
+        `  metaFiles: [{ pattern: 'resources/views/**/*.edge', reloadServer: false }],`,
+        '})',
+      ].join('\n')
+    )
+
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    const command = await ace.create(Remove, ['edge', '--dry-run'])
+    await command.exec()
+
+    command.assertSucceeded()
+    command.assertLogMatches(/red\(-\s+providers: \[\(\) => import\('@adonisjs\/core\/providers/)
+    command.assertLogMatches(/red\(-\s+metaFiles: \[\{ pattern: 'resources\/views/)
+    await assert.fileContains('adonisrc.ts', '@adonisjs/core/providers/edge_provider')
+  })
+})
@@ -8,6 +8,7 @@
  */
 
 import { test } from '@japa/runner'
+import InspectBoot from '../../commands/inspect_boot.js'
 import { ListLoader } from '../../modules/ace/main.js'
 import type { CommandOptions } from '../../types/ace.js'
 import { BaseCommand } from '../../modules/ace/commands.js'
@@ -293,4 +294,35 @@ test.group('Ignitor | Ace process', (group) => {
     assert.equal(ignitor.getApp()?.getEnvironment(), 'repl')
     assert.equal(ignitor.getApp()?.getState(), 'terminated')
   })
+
+  test('profile the boot cycle of the environment selected for the inspect:boot command', async ({
+    cleanup,
+    assert,
+  }) => {
+    cleanup(async () => {
+      await ignitor.terminate()
+    })
+
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .create(BASE_URL)
+
+    await ignitor
+      .ace()
+      .configure(async (app) => {
+        const kernel = await app.container.make('ace')
+        kernel.addLoader(new ListLoader([InspectBoot]))
+        kernel.ui.switchMode('raw')
+      })
+      .handle(['inspect:boot', '--environment', 'web', '--json'])
+
+    assert.equal(process.exitCode, 0)
+    assert.equal(ignitor.getApp()?.getEnvironment(), 'web')
+    assert.equal(ignitor.getApp()?.getState(), 'terminated')
+  })
 })
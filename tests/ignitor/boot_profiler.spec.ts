@@ -0,0 +1,153 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { test } from '@japa/runner'
+import { setTimeout } from 'node:timers/promises'
+import { IgnitorFactory } from '../../factories/core/ignitor.js'
+import { BootProfiler } from '../../src/ignitor/boot_profiler.js'
+
+const BASE_URL = new URL('./tmp/', import.meta.url)
+
+test.group('Ignitor | Boot profiler', () => {
+  test('record providers, preloads and bindings timings', async ({ assert, cleanup }) => {
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [
+            () => import('../../providers/app_provider.js'),
+            async () => ({
+              default: class SlowProvider {
+                constructor(protected app: any) {}
+
+                register() {
+                  this.app.container.singleton('slow', async () => {
+                    await setTimeout(20)
+                    return { slow: true }
+                  })
+                }
+
+                async boot() {
+                  await setTimeout(30)
+                }
+
+                async ready() {
+                  await this.app.container.make('slow')
+                }
+              },
+            }),
+          ],
+          preloads: [async () => setTimeout(10)],
+        },
+      })
+      .withCoreConfig()
+      .create(BASE_URL, { profileBoot: true })
+
+    const app = ignitor.createApp('web')
+    cleanup(() => app.terminate())
+
+    await app.init()
+    await app.boot()
+    await app.start(() => {})
+
+    const profiler = await app.container.make(BootProfiler)
+    const report = profiler.getReport()
+    const find = (name: string, phase: string) => {
+      return report.entries.find((entry) => entry.name === name && entry.phase === phase)
+    }
+
+    assert.isFalse(profiler.isRecording)
+    assert.isAbove(report.duration!, 60)
+    assert.exists(find('AppServiceProvider', 'import'))
+    assert.exists(find('AppServiceProvider', 'register'))
+    assert.exists(find('AppServiceProvider', 'boot'))
+    assert.exists(find('SlowProvider', 'register'))
+    assert.isAtLeast(find('SlowProvider', 'boot')!.duration, 29)
+    assert.isAtLeast(find('SlowProvider', 'ready')!.duration, 19)
+    assert.isAtLeast(find('slow', 'resolve')!.duration, 19)
+    assert.equal(report.entries.filter((entry) => entry.kind === 'preload').length, 1)
+
+    const trace = profiler.toChromeTrace()
+    assert.lengthOf(trace.traceEvents, report.entries.length)
+    assert.containsSubset(trace.traceEvents, [
+      { name: 'SlowProvider.boot', cat: 'provider', ph: 'X', pid: process.pid },
+    ])
+  })
+
+  test('stop recording once the app is ready', async ({ assert, cleanup }) => {
+    const ignitor = new IgnitorFactory()
+      .merge({ rcFileContents: { providers: [() => import('../../providers/app_provider.js')] } })
+      .withCoreConfig()
+      .create(BASE_URL, { profileBoot: true })
+
+    const app = ignitor.createApp('web')
+    cleanup(() => app.terminate())
+
+    await app.init()
+    await app.boot()
+    await app.start(() => {})
+
+    const profiler = await app.container.make(BootProfiler)
+    const { entries } = profiler.getReport()
+
+    await app.container.make(class UserService {})
+    assert.lengthOf(profiler.getReport().entries, entries.length)
+  })
+
+  test('forward container events and restore the container once ready', async ({
+    assert,
+    cleanup,
+  }) => {
+    const ignitor = new IgnitorFactory()
+      .merge({ rcFileContents: { providers: [() => import('../../providers/app_provider.js')] } })
+      .withCoreConfig()
+      .create(BASE_URL, { profileBoot: true })
+
+    const events: string[] = []
+    const app = ignitor.createApp('web')
+    cleanup(() => app.terminate())
+
+    app.initiating(() => {
+      app.container.useEmitter({
+        emit: (event: string | symbol, data: any) => {
+          events.push(`${String(event)}:${data.binding.name}`)
+        },
+      })
+    })
+
+    await app.init()
+    const containerMake = app.container.make
+    await app.boot()
+    await app.start(() => {})
+
+    class UserService {}
+    await app.container.make(UserService)
+
+    assert.notStrictEqual(containerMake, app.container.make)
+    assert.isFalse(Object.hasOwn(app.container, 'make'))
+    assert.isFalse(Object.hasOwn(app.container, 'useEmitter'))
+    assert.include(events, 'container_binding:resolved:UserService')
+  })
+
+  test('do not profile the boot unless enabled', async ({ assert, cleanup }) => {
+    const ignitor = new IgnitorFactory()
+      .merge({ rcFileContents: { providers: [() => import('../../providers/app_provider.js')] } })
+      .withCoreConfig()
+      .create(BASE_URL)
+
+    const app = ignitor.createApp('web')
+    cleanup(() => app.terminate())
+
+    await app.init()
+    await app.boot()
+    await app.start(() => {})
+
+    assert.isFalse(app.container.hasBinding(BootProfiler))
+    assert.isFalse(Object.hasOwn(app.container, 'make'))
+  })
+})
@@ -8,14 +8,62 @@
  */
 
 import getPort from 'get-port'
+import { execa } from 'execa'
+import { fileURLToPath } from 'node:url'
 import supertest from 'supertest'
 import { test } from '@japa/runner'
-import { createServer } from 'node:http'
+import { readFile, stat } from 'node:fs/promises'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { connect as connectHttp2 } from 'node:http2'
+import { createServer, Agent, request } from 'node:http'
+import { connect as connectTls, type PeerCertificate } from 'node:tls'
 
-import type { ApplicationService } from '../../src/types.js'
+import type { ApplicationService, EventsList } from '../../src/types.js'
 import { IgnitorFactory } from '../../factories/core/ignitor.js'
+import { defineConfig as defineHttpConfig } from '../../modules/http/main.js'
 
 const BASE_URL = new URL('./tmp/', import.meta.url)
+const IGNITOR_FACTORY_URL = new URL('../../factories/core/ignitor.js', import.meta.url)
+const APP_PROVIDER_URL = new URL('../../providers/app_provider.js', import.meta.url)
+
+/**
+ * Generates a self-signed certificate using openssl
+ */
+async function generateCertificate(basePath: string, name: string) {
+  await execa(
+    'openssl',
+    [
+      'req',
+      '-x509',
+      '-newkey',
+      'rsa:2048',
+      '-nodes',
+      '-keyout',
+      `${name}.key`,
+      '-out',
+      `${name}.crt`,
+      '-days',
+      '1',
+      '-subj',
+      `/CN=localhost`,
+    ],
+    { cwd: basePath }
+  )
+}
+
+/**
+ * Returns the certificate served by a TLS server
+ */
+function getPeerCertificate(port: number): Promise<PeerCertificate> {
+  return new Promise((resolve, reject) => {
+    const socket = connectTls({ host: 'localhost', port, rejectUnauthorized: false }, () => {
+      const certificate = socket.getPeerCertificate()
+      socket.end()
+      resolve(certificate)
+    })
+    socket.on('error', reject)
+  })
+}
 
 test.group('Ignitor | Http server process', () => {
   test('start http server using the http server process', async ({ assert, cleanup }) => {
@@ -176,4 +224,646 @@ test.group('Ignitor | Http server process', () => {
     server.getNodeServer()!.emit('error', new Error('crash'))
     assert.equal(process.exitCode, 1)
   }).waitForDone()
+
+  test('emit events when closing the server', async ({ assert, cleanup }) => {
+    const events: string[] = []
+    cleanup(async () => {
+      delete process.env.HOST
+      delete process.env.PORT
+    })
+
+    process.env.HOST = 'localhost'
+    process.env.PORT = String(await getPort())
+
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .preload(async (app) => {
+        const emitter = await app.container.make('emitter')
+        emitter.on('http:server_closing', ({ timeout }) => {
+          events.push(`closing:${timeout}`)
+        })
+        emitter.on('http:server_closed', ({ forceClosed }) => {
+          events.push(`closed:${forceClosed}`)
+        })
+      })
+      .create(BASE_URL)
+
+    await ignitor.httpServer().start()
+    await ignitor.terminate()
+    assert.deepEqual(events, ['closing:10000', 'closed:false'])
+  })
+
+  test('wait for in-flight requests to finish before closing', async ({ assert, cleanup }) => {
+    let app: ApplicationService
+    cleanup(async () => {
+      delete process.env.HOST
+      delete process.env.PORT
+    })
+
+    process.env.HOST = 'localhost'
+    process.env.PORT = String(await getPort())
+    const serverURL = `http://${process.env.HOST}:${process.env.PORT}`
+
+    let requestReceived: () => void
+    const requestReceivedPromise = new Promise<void>((resolve) => (requestReceived = resolve))
+
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .preload(async (application) => {
+        const router = await application.container.make('router')
+        router.get('/', async () => {
+          requestReceived()
+          await new Promise((resolve) => setTimeout(resolve, 200))
+          return 'hello world'
+        })
+      })
+      .create(BASE_URL)
+
+    ignitor.tap((application) => {
+      app = application
+    })
+
+    await ignitor.httpServer().start()
+    const response = supertest(serverURL)
+      .get('/')
+      .then((res) => res)
+
+    await requestReceivedPromise
+    await ignitor.terminate()
+
+    const server = await app!.container.make('server')
+    assert.isFalse(server.getNodeServer()!.listening)
+
+    const { text } = await response
+    assert.equal(text, 'hello world')
+  })
+
+  test('close idle keep-alive connections during shutdown', async ({ assert, cleanup }) => {
+    const agent = new Agent({ keepAlive: true })
+    cleanup(async () => {
+      agent.destroy()
+      delete process.env.HOST
+      delete process.env.PORT
+    })
+
+    process.env.HOST = 'localhost'
+    process.env.PORT = String(await getPort())
+
+    let forceClosed: boolean | undefined
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .preload(async (app) => {
+        const router = await app.container.make('router')
+        router.get('/', () => 'hello world')
+
+        const emitter = await app.container.make('emitter')
+        emitter.on('http:server_closed', (payload) => {
+          forceClosed = payload.forceClosed
+        })
+      })
+      .create(BASE_URL)
+
+    await ignitor.httpServer().start()
+
+    await new Promise<void>((resolve, reject) => {
+      request({ host: process.env.HOST, port: process.env.PORT, path: '/', agent }, (res) => {
+        res.resume()
+        res.on('end', () => resolve())
+      })
+        .on('error', reject)
+        .end()
+    })
+
+    await ignitor.terminate()
+    assert.isFalse(forceClosed)
+  }).timeout(3000)
+
+  test('force close connections after the shutdown timeout', async ({ assert, cleanup }) => {
+    cleanup(async () => {
+      delete process.env.HOST
+      delete process.env.PORT
+    })
+
+    process.env.HOST = 'localhost'
+    process.env.PORT = String(await getPort())
+    const serverURL = `http://${process.env.HOST}:${process.env.PORT}`
+
+    let requestReceived: () => void
+    const requestReceivedPromise = new Promise<void>((resolve) => (requestReceived = resolve))
+
+    let forceClosed: boolean | undefined
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .merge({
+        config: {
+          app: {
+            appKey: 'averylongrandomsecretkey',
+            http: defineHttpConfig({ shutdown: { timeout: 100 } }),
+          },
+        },
+      })
+      .preload(async (app) => {
+        const router = await app.container.make('router')
+        router.get('/', async () => {
+          requestReceived()
+          await new Promise(() => {})
+        })
+
+        const emitter = await app.container.make('emitter')
+        emitter.on('http:server_closed', (payload) => {
+          forceClosed = payload.forceClosed
+        })
+      })
+      .create(BASE_URL)
+
+    await ignitor.httpServer().start()
+    const response = supertest(serverURL)
+      .get('/')
+      .then(
+        () => 'completed',
+        () => 'aborted'
+      )
+
+    await requestReceivedPromise
+    await ignitor.terminate()
+
+    assert.isTrue(forceClosed)
+    assert.equal(await response, 'aborted')
+  })
+
+  test('start http server in cluster mode', async ({ assert, fs }) => {
+    const port = await getPort()
+    await fs.createJson('package.json', { type: 'module' })
+    await fs.create(
+      'server.ts',
+      `
+      import { IgnitorFactory } from '${IGNITOR_FACTORY_URL.href}'
+
+      const ignitor = new IgnitorFactory()
+        .merge({
+          rcFileContents: {
+            providers: [() => import('${APP_PROVIDER_URL.href}')],
+          },
+        })
+        .withCoreConfig()
+        .preload(async (app) => {
+          const router = await app.container.make('router')
+          router.get('/', () => String(process.pid))
+        })
+        .create(new URL('./', import.meta.url))
+        .tap((app) => {
+          app.listen('SIGTERM', () => app.terminate())
+        })
+
+      await ignitor.httpServer().cluster({ workers: 2 })
+    `
+    )
+
+    const serverProcess = execa(
+      'node',
+      ['--import=ts-node-maintained/register/esm', fileURLToPath(new URL('server.ts', fs.baseUrl))],
+      {
+        cwd: fileURLToPath(new URL('../../', import.meta.url)),
+        env: { HOST: 'localhost', PORT: String(port) },
+        ipc: true,
+        reject: false,
+      }
+    )
+
+    const readyMessage = await new Promise<any>((resolve, reject) => {
+      serverProcess.on('message', (message: any) => {
+        if (message && message.isAdonisJS) {
+          resolve(message)
+        }
+      })
+      serverProcess.once('exit', () => reject(new Error('Server process exited')))
+    })
+
+    assert.equal(readyMessage.environment, 'web')
+    assert.equal(readyMessage.port, port)
+
+    const { text } = await supertest(`http://localhost:${port}`).get('/')
+    assert.notEqual(text, String(serverProcess.pid))
+
+    serverProcess.kill('SIGTERM')
+    const result = await serverProcess
+    assert.equal(result.exitCode, 0)
+  }).timeout(30_000)
+
+  test('restart the crashed cluster workers', async ({ assert, fs }) => {
+    const port = await getPort()
+    await fs.createJson('package.json', { type: 'module' })
+    await fs.create('start/events.ts', `process.send?.({ preloaded: true })`)
+    await fs.create(
+      'server.ts',
+      `
+      import { IgnitorFactory } from '${IGNITOR_FACTORY_URL.href}'
+
+      const ignitor = new IgnitorFactory()
+        .merge({
+          rcFileContents: {
+            providers: [() => import('${APP_PROVIDER_URL.href}')],
+            preloads: [() => import('./start/events.js')],
+          },
+        })
+        .withCoreConfig()
+        .preload(async (app) => {
+          const router = await app.container.make('router')
+          router.get('/', () => String(process.pid))
+        })
+        .create(new URL('./', import.meta.url))
+        .tap((app) => {
+          app.listen('SIGTERM', () => app.terminate())
+        })
+
+      await ignitor.httpServer().cluster({ workers: 1 })
+    `
+    )
+
+    const serverProcess = execa(
+      'node',
+      ['--import=ts-node-maintained/register/esm', fileURLToPath(new URL('server.ts', fs.baseUrl))],
+      {
+        cwd: fileURLToPath(new URL('../../', import.meta.url)),
+        env: { HOST: 'localhost', PORT: String(port) },
+        ipc: true,
+        reject: false,
+      }
+    )
+
+    const messages: any[] = []
+    await new Promise<void>((resolve, reject) => {
+      serverProcess.on('message', (message: any) => {
+        messages.push(message)
+        if (message && message.isAdonisJS) {
+          resolve()
+        }
+      })
+      serverProcess.once('exit', () => reject(new Error('Server process exited')))
+    })
+
+    /**
+     * The preload files are only imported by the workers, which
+     * send the message to the primary process
+     */
+    assert.notDeepInclude(messages, { preloaded: true })
+
+    const { text: workerPid } = await supertest(`http://localhost:${port}`).get('/')
+    process.kill(Number(workerPid), 'SIGKILL')
+
+    let restartedWorkerPid: string | undefined
+    for (let attempt = 0; attempt < 100 && !restartedWorkerPid; attempt++) {
+      await sleep(100)
+      restartedWorkerPid = await supertest(`http://localhost:${port}`)
+        .get('/')
+        .then(
+          ({ text }) => text,
+          () => undefined
+        )
+    }
+
+    assert.exists(restartedWorkerPid)
+    assert.notEqual(restartedWorkerPid, workerPid)
+
+    serverProcess.kill('SIGTERM')
+    const result = await serverProcess
+    assert.equal(result.exitCode, 0)
+  }).timeout(30_000)
+
+  test('serve application over HTTPS using the tls config', async ({ assert, fs, cleanup }) => {
+    cleanup(async () => {
+      delete process.env.HOST
+      delete process.env.PORT
+      await ignitor.terminate()
+    })
+
+    process.env.HOST = 'localhost'
+    process.env.PORT = String(await getPort())
+    await fs.mkdir('certs')
+    await generateCertificate(fileURLToPath(new URL('certs', fs.baseUrl)), 'server')
+
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .merge({
+        config: {
+          app: {
+            appKey: 'averylongrandomsecretkey',
+            http: defineHttpConfig({ tls: { key: 'certs/server.key', cert: 'certs/server.crt' } }),
+          },
+        },
+      })
+      .preload(async (app) => {
+        const router = await app.container.make('router')
+        router.get('/', () => 'hello world')
+      })
+      .create(fs.baseUrl)
+
+    await ignitor.httpServer().start()
+
+    const { text } = await supertest(`https://localhost:${process.env.PORT}`)
+      .get('/')
+      .disableTLSCerts()
+    assert.equal(text, 'hello world')
+  })
+
+  test('serve application over HTTP/2 with HTTP/1.1 fallback', async ({ assert, fs, cleanup }) => {
+    cleanup(async () => {
+      delete process.env.HOST
+      delete process.env.PORT
+      await ignitor.terminate()
+    })
+
+    process.env.HOST = 'localhost'
+    process.env.PORT = String(await getPort())
+    await fs.mkdir('certs')
+    await generateCertificate(fileURLToPath(new URL('certs', fs.baseUrl)), 'server')
+
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .merge({
+        config: {
+          app: {
+            appKey: 'averylongrandomsecretkey',
+            http: defineHttpConfig({
+              http2: true,
+              tls: { key: 'certs/server.key', cert: 'certs/server.crt' },
+            }),
+          },
+        },
+      })
+      .preload(async (app) => {
+        const router = await app.container.make('router')
+        router.get('/', (ctx) => `HTTP/${ctx.request.request.httpVersion}`)
+      })
+      .create(fs.baseUrl)
+
+    await ignitor.httpServer().start()
+
+    const http2Response = await new Promise<string>((resolve, reject) => {
+      const client = connectHttp2(`https://localhost:${process.env.PORT}`, {
+        rejectUnauthorized: false,
+      })
+      client.on('error', reject)
+
+      let body = ''
+      const req = client.request({ ':path': '/' })
+      req.setEncoding('utf8')
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        client.close()
+        resolve(body)
+      })
+      req.end()
+    })
+    assert.equal(http2Response, 'HTTP/2.0')
+
+    const { text } = await supertest(`https://localhost:${process.env.PORT}`)
+      .get('/')
+      .disableTLSCerts()
+    assert.equal(text, 'HTTP/1.1')
+  })
+
+  test('adapt the HTTP/2 request and response to the HTTP/1 API', async ({
+    assert,
+    fs,
+    cleanup,
+  }) => {
+    cleanup(async () => {
+      delete process.env.HOST
+      delete process.env.PORT
+      await ignitor.terminate()
+    })
+
+    process.env.HOST = 'localhost'
+    process.env.PORT = String(await getPort())
+    await fs.mkdir('certs')
+    await generateCertificate(fileURLToPath(new URL('certs', fs.baseUrl)), 'server')
+
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .merge({
+        config: {
+          app: {
+            appKey: 'averylongrandomsecretkey',
+            http: defineHttpConfig({
+              http2: true,
+              tls: { key: 'certs/server.key', cert: 'certs/server.crt' },
+            }),
+          },
+        },
+      })
+      .preload(async (app) => {
+        const router = await app.container.make('router')
+        router.get('/', (ctx) => {
+          const { request: req, response: res } = ctx
+          res.response.writeHead(201, 'Created', ['x-name', req.request.headersDistinct['x-name']!])
+          res.response.end('created')
+        })
+      })
+      .create(fs.baseUrl)
+
+    await ignitor.httpServer().start()
+
+    const { headers, body } = await new Promise<{
+      headers: Record<string, unknown>
+      body: string
+    }>((resolve, reject) => {
+      const client = connectHttp2(`https://localhost:${process.env.PORT}`, {
+        rejectUnauthorized: false,
+      })
+      client.on('error', reject)
+
+      let responseBody = ''
+      const req = client.request({ ':path': '/', 'x-name': 'virk' })
+      req.setEncoding('utf8')
+      req.on('response', (responseHeaders) => {
+        req.on('data', (chunk) => (responseBody += chunk))
+        req.on('end', () => {
+          client.close()
+          resolve({ headers: responseHeaders, body: responseBody })
+        })
+      })
+      req.end()
+    })
+
+    assert.equal(headers[':status'], 201)
+    assert.equal(headers['x-name'], 'virk')
+    assert.equal(body, 'created')
+  })
+
+  test('raise error when enabling HTTP/2 without tls', async ({ assert }) => {
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .merge({
+        config: {
+          app: {
+            appKey: 'averylongrandomsecretkey',
+            http: defineHttpConfig({ http2: true }),
+          },
+        },
+      })
+      .create(BASE_URL)
+
+    await assert.rejects(
+      () => ignitor.httpServer().start(),
+      'Cannot enable HTTP/2 without TLS. Define the "http.tls" config inside "config/app.ts" file'
+    )
+  })
+
+  test('reload TLS certificates on SIGHUP', async ({ assert, fs, cleanup }) => {
+    cleanup(async () => {
+      delete process.env.HOST
+      delete process.env.PORT
+      await ignitor.terminate()
+    })
+
+    process.env.HOST = 'localhost'
+    process.env.PORT = String(await getPort())
+    await fs.mkdir('certs')
+    const certsPath = fileURLToPath(new URL('certs', fs.baseUrl))
+    await generateCertificate(certsPath, 'server')
+    await generateCertificate(certsPath, 'renewed')
+
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .merge({
+        config: {
+          app: {
+            appKey: 'averylongrandomsecretkey',
+            http: defineHttpConfig({ tls: { key: 'certs/server.key', cert: 'certs/server.crt' } }),
+          },
+        },
+      })
+      .create(fs.baseUrl)
+
+    await ignitor.httpServer().start()
+    const initialCertificate = await getPeerCertificate(Number(process.env.PORT))
+
+    await fs.create('certs/server.key', await readFile(`${certsPath}/renewed.key`, 'utf-8'))
+    await fs.create('certs/server.crt', await readFile(`${certsPath}/renewed.crt`, 'utf-8'))
+    process.emit('SIGHUP', 'SIGHUP')
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    const renewedCertificate = await getPeerCertificate(Number(process.env.PORT))
+    assert.notEqual(renewedCertificate.fingerprint256, initialCertificate.fingerprint256)
+  })
+
+  test('listen on multiple addresses and unix sockets', async ({ assert, fs, cleanup }) => {
+    cleanup(async () => {
+      await ignitor.terminate()
+    })
+
+    await fs.mkdir('sockets')
+    const firstPort = await getPort()
+    const secondPort = await getPort()
+    const socketPath = fileURLToPath(new URL('sockets/app.sock', fs.baseUrl))
+
+    let readyPayload: EventsList['http:server_ready'] | undefined
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .merge({
+        config: {
+          app: {
+            appKey: 'averylongrandomsecretkey',
+            http: defineHttpConfig({
+              listen: [
+                { host: 'localhost', port: firstPort },
+                { host: '::1', port: secondPort },
+                { path: 'sockets/app.sock', permissions: 0o660 },
+              ],
+            }),
+          },
+        },
+      })
+      .preload(async (app) => {
+        const router = await app.container.make('router')
+        router.get('/', () => 'hello world')
+
+        const emitter = await app.container.make('emitter')
+        emitter.on('http:server_ready', (payload) => {
+          readyPayload = payload
+        })
+      })
+      .create(fs.baseUrl)
+
+    await ignitor.httpServer().start()
+
+    assert.equal(readyPayload!.host, 'localhost')
+    assert.equal(readyPayload!.port, firstPort)
+    assert.deepEqual(readyPayload!.addresses, [
+      { host: 'localhost', port: firstPort },
+      { host: '::1', port: secondPort },
+      { path: socketPath },
+    ])
+
+    const firstResponse = await supertest(`http://localhost:${firstPort}`).get('/')
+    assert.equal(firstResponse.text, 'hello world')
+
+    const secondResponse = await supertest(`http://[::1]:${secondPort}`).get('/')
+    assert.equal(secondResponse.text, 'hello world')
+
+    const socketResponse = await new Promise<string>((resolve, reject) => {
+      request({ socketPath, path: '/' }, (res) => {
+        let body = ''
+        res.setEncoding('utf-8')
+        res.on('data', (chunk) => (body += chunk))
+        res.on('end', () => resolve(body))
+      })
+        .on('error', reject)
+        .end()
+    })
+    assert.equal(socketResponse, 'hello world')
+    const socketStats = await stat(socketPath)
+    assert.equal(socketStats.mode & 0o777, 0o660)
+  })
 })
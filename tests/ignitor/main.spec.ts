@@ -7,6 +7,7 @@
  * file that was distributed with this source code.
  */
 
+import sinon from 'sinon'
 import { test } from '@japa/runner'
 import { Ignitor } from '../../index.js'
 
@@ -30,3 +31,231 @@ test.group('Ignitor', () => {
     assert.equal(app.getState(), 'created')
   })
 })
+
+test.group('Ignitor | Termination signals', (group) => {
+  group.each.setup(() => {
+    const existingListeners = {
+      SIGTERM: process.listeners('SIGTERM'),
+      SIGINT: process.listeners('SIGINT'),
+    }
+
+    return () => {
+      sinon.restore()
+      for (let signal of ['SIGTERM', 'SIGINT'] as const) {
+        process
+          .listeners(signal)
+          .filter((listener) => !existingListeners[signal].includes(listener))
+          .forEach((listener) => process.off(signal, listener))
+      }
+    }
+  })
+
+  test('terminate app when process receives a termination signal', async ({ assert }) => {
+    const ignitor = new Ignitor(BASE_URL, { terminationSignals: ['SIGTERM'] })
+    const app = ignitor.createApp('web')
+    app.useConfig({})
+    await app.init()
+
+    const terminating = new Promise<void>((resolve) => app.terminating(() => resolve()))
+    process.emit('SIGTERM', 'SIGTERM')
+
+    await terminating
+    assert.isTrue(app.isTerminating)
+  })
+
+  test('do not listen for signals that are not configured', async ({ assert }) => {
+    const ignitor = new Ignitor(BASE_URL, { terminationSignals: ['SIGTERM'] })
+    const app = ignitor.createApp('web')
+    app.useConfig({})
+    await app.init()
+
+    process.emit('SIGINT', 'SIGINT')
+    assert.isFalse(app.isTerminating)
+  })
+
+  test('exit process when app does not terminate within the timeout', async ({ assert }) => {
+    const exit = sinon.stub(process, 'exit')
+
+    const ignitor = new Ignitor(BASE_URL, {
+      terminationSignals: ['SIGTERM'],
+      forceExitTimeout: 50,
+    })
+    const app = ignitor.createApp('web')
+    app.useConfig({})
+    await app.init()
+    app.terminating(() => new Promise<void>(() => {}))
+
+    process.emit('SIGTERM', 'SIGTERM')
+    assert.isFalse(exit.called)
+
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    assert.isTrue(exit.calledOnceWithExactly(1))
+  })
+
+  test('keep the process alive until the force exit timeout', async ({ assert }) => {
+    const exit = sinon.stub(process, 'exit')
+    const countTimers = () => {
+      return process.getActiveResourcesInfo().filter((resource) => resource === 'Timeout').length
+    }
+
+    const ignitor = new Ignitor(BASE_URL, {
+      terminationSignals: ['SIGTERM'],
+      forceExitTimeout: 50,
+    })
+    const app = ignitor.createApp('web')
+    app.useConfig({})
+    await app.init()
+    app.terminating(() => new Promise<void>(() => {}))
+
+    const timers = countTimers()
+    process.emit('SIGTERM', 'SIGTERM')
+    assert.equal(countTimers(), timers + 1)
+
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    assert.isTrue(exit.calledOnceWithExactly(1))
+  })
+
+  test('clear the force exit timer once the app is terminated', async ({ assert }) => {
+    const exit = sinon.stub(process, 'exit')
+
+    const ignitor = new Ignitor(BASE_URL, {
+      terminationSignals: ['SIGTERM'],
+      forceExitTimeout: 50,
+    })
+    const app = ignitor.createApp('web')
+    app.useConfig({})
+    await app.init()
+
+    const terminating = new Promise<void>((resolve) => app.terminating(() => resolve()))
+    process.emit('SIGTERM', 'SIGTERM')
+    await terminating
+
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    assert.isFalse(exit.called)
+  })
+
+  test('exit process when SIGINT is received while terminating', async ({ assert }) => {
+    const exit = sinon.stub(process, 'exit')
+
+    const ignitor = new Ignitor(BASE_URL, { terminationSignals: ['SIGTERM', 'SIGINT'] })
+    const app = ignitor.createApp('web')
+    app.useConfig({})
+    await app.init()
+    app.terminating(() => new Promise<void>(() => {}))
+
+    process.emit('SIGINT', 'SIGINT')
+    assert.isFalse(exit.called)
+
+    process.emit('SIGINT', 'SIGINT')
+    assert.isTrue(exit.calledOnceWithExactly(1))
+  })
+
+  test('exit process when SIGINT is received while terminating on another signal', async ({
+    assert,
+  }) => {
+    const exit = sinon.stub(process, 'exit')
+
+    const ignitor = new Ignitor(BASE_URL, { terminationSignals: ['SIGTERM'] })
+    const app = ignitor.createApp('web')
+    app.useConfig({})
+    await app.init()
+    app.terminating(() => new Promise<void>(() => {}))
+
+    process.emit('SIGTERM', 'SIGTERM')
+    assert.isFalse(exit.called)
+
+    process.emit('SIGINT', 'SIGINT')
+    assert.isTrue(exit.calledOnceWithExactly(1))
+  })
+})
+
+test.group('Ignitor | Uncaught errors', (group) => {
+  group.each.setup(() => {
+    const existingListeners = process.listeners('uncaughtException')
+    const existingRejectionListeners = process.listeners('unhandledRejection')
+
+    return () => {
+      sinon.restore()
+      process
+        .listeners('uncaughtException')
+        .filter((listener) => !existingListeners.includes(listener))
+        .forEach((listener) => process.off('uncaughtException', listener))
+      process
+        .listeners('unhandledRejection')
+        .filter((listener) => !existingRejectionListeners.includes(listener))
+        .forEach((listener) => process.off('unhandledRejection', listener))
+    }
+  })
+
+  test('do not handle uncaught errors by default', async ({ assert }) => {
+    const listenersCount = process.listenerCount('uncaughtException')
+    new Ignitor(BASE_URL).createApp('web')
+    assert.equal(process.listenerCount('uncaughtException'), listenersCount)
+  })
+
+  test('pretty print uncaught exception and terminate the app', async ({ assert }) => {
+    const exit = sinon.stub(process, 'exit')
+    const consoleError = sinon.stub(console, 'error')
+
+    const ignitor = new Ignitor(BASE_URL, { handleUncaughtErrors: true })
+    const app = ignitor.createApp('web')
+    app.useConfig({})
+    await app.init()
+
+    const terminating = new Promise<void>((resolve) => app.terminating(() => resolve()))
+    process.listeners('uncaughtException').at(-1)!(
+      new Error('Something went wrong'),
+      'uncaughtException'
+    )
+    await terminating
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    consoleError.restore()
+    assert.match(consoleError.firstCall.args[0], /Something\s+went\s+wrong/)
+    assert.isTrue(exit.calledOnceWithExactly(1))
+    assert.equal(process.exitCode, 1)
+    process.exitCode = undefined
+  })
+
+  test('report unhandled rejection using the logger in production', async ({ assert, cleanup }) => {
+    const exit = sinon.stub(process, 'exit')
+    const nodeEnv = process.env.NODE_ENV
+    process.env.NODE_ENV = 'production'
+    cleanup(() => {
+      process.env.NODE_ENV = nodeEnv
+    })
+
+    const ignitor = new Ignitor(BASE_URL, { handleUncaughtErrors: true })
+    const app = ignitor.createApp('web')
+    app.useConfig({})
+    await app.init()
+    await app.boot()
+
+    const logs: any[] = []
+    app.container.bindValue('logger', {
+      fatal: (...args: any[]) => logs.push(args),
+    } as any)
+
+    const error = new Error('Something went wrong')
+    process.listeners('unhandledRejection').at(-1)!(error, Promise.resolve())
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    assert.deepEqual(logs, [[{ err: error }, 'unhandled rejection']])
+    assert.isTrue(app.isTerminated)
+    assert.isTrue(exit.calledOnceWithExactly(1))
+    process.exitCode = undefined
+  })
+
+  test('remove handlers when the app is terminated', async ({ assert }) => {
+    const listenersCount = process.listenerCount('uncaughtException')
+
+    const ignitor = new Ignitor(BASE_URL, { handleUncaughtErrors: true })
+    const app = ignitor.createApp('web')
+    app.useConfig({})
+    await app.init()
+    assert.equal(process.listenerCount('uncaughtException'), listenersCount + 1)
+
+    await app.terminate()
+    assert.equal(process.listenerCount('uncaughtException'), listenersCount)
+  })
+})
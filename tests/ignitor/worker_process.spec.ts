@@ -0,0 +1,156 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { test } from '@japa/runner'
+import { IgnitorFactory } from '../../factories/core/ignitor.js'
+
+const BASE_URL = new URL('./tmp/', import.meta.url)
+
+test.group('Ignitor | Worker process', () => {
+  test('run callback in the worker environment', async ({ assert, cleanup }) => {
+    cleanup(async () => {
+      await ignitor.terminate()
+    })
+
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .create(BASE_URL)
+
+    let environment: string | undefined
+    await ignitor.worker().run(async (app) => {
+      environment = app.getEnvironment()
+      assert.isTrue(app.container.hasBinding('logger'))
+    })
+
+    assert.equal(environment, 'worker')
+    assert.equal(ignitor.getApp()?.getState(), 'ready')
+  })
+
+  test('load providers targeting the worker environment', async ({ assert, cleanup }) => {
+    cleanup(async () => {
+      await ignitor.terminate()
+    })
+
+    const providers: string[] = []
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [
+            () => import('../../providers/app_provider.js'),
+            {
+              file: async () => ({
+                default: class {
+                  register() {
+                    providers.push('worker')
+                  }
+                },
+              }),
+              environment: ['worker'],
+            },
+            {
+              file: async () => ({
+                default: class {
+                  register() {
+                    providers.push('web')
+                  }
+                },
+              }),
+              environment: ['web'],
+            },
+          ],
+        },
+      })
+      .withCoreConfig()
+      .create(BASE_URL)
+
+    await ignitor.worker().run(() => {})
+    assert.deepEqual(providers, ['worker'])
+  })
+
+  test('drain work in progress when the app terminates', async ({ assert }) => {
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .create(BASE_URL)
+
+    const stack: string[] = []
+    await ignitor.worker().run(() => {
+      stack.push('started')
+      return async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50))
+        stack.push('drained')
+      }
+    })
+
+    await ignitor.terminate()
+    assert.deepEqual(stack, ['started', 'drained'])
+    assert.equal(ignitor.getApp()?.getState(), 'terminated')
+  })
+
+  test('clear the keep alive timer when the app terminates', async ({ assert }) => {
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .create(BASE_URL)
+
+    const countTimers = () => {
+      return process.getActiveResourcesInfo().filter((resource) => resource === 'Timeout').length
+    }
+
+    const timers = countTimers()
+    await ignitor.worker().run(async (app) => {
+      await app.terminate()
+    })
+
+    assert.equal(countTimers(), timers)
+  })
+
+  test('clear the keep alive timer when the callback fails', async ({ assert, cleanup }) => {
+    cleanup(async () => {
+      await ignitor.terminate()
+    })
+
+    const ignitor = new IgnitorFactory()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .withCoreConfig()
+      .create(BASE_URL)
+
+    const countTimers = () => {
+      return process.getActiveResourcesInfo().filter((resource) => resource === 'Timeout').length
+    }
+
+    const timers = countTimers()
+    await assert.rejects(
+      () =>
+        ignitor.worker().run(() => {
+          throw new Error('Unable to connect to the queue')
+        }),
+      'Unable to connect to the queue'
+    )
+
+    assert.equal(countTimers(), timers)
+  })
+})
@@ -8,11 +8,14 @@
  */
 
 import getPort from 'get-port'
+import { execa } from 'execa'
+import supertest from 'supertest'
 import { Socket } from 'node:net'
+import { fileURLToPath } from 'node:url'
 import { test } from '@japa/runner'
-import { createServer, IncomingMessage, ServerResponse } from 'node:http'
+import { createServer, request, IncomingMessage, ServerResponse } from 'node:http'
 
-import { HttpContext } from '../../modules/http/main.js'
+import { HttpContext, defineConfig as defineHttpConfig } from '../../modules/http/main.js'
 import { IgnitorFactory } from '../../factories/core/ignitor.js'
 import { TestUtilsFactory } from '../../factories/core/test_utils.js'
 
@@ -157,6 +160,183 @@ test.group('Test utils | Http', () => {
     await assert.rejects(() => closeServer(), 'Server is not running.')
   })
 
+  test('start HTTPS server using the tls config', async ({ assert, fs, cleanup }) => {
+    cleanup(async () => {
+      delete process.env.HOST
+      delete process.env.PORT
+    })
+
+    process.env.HOST = 'localhost'
+    process.env.PORT = String(await getPort())
+    await fs.mkdir('certs')
+    await execa(
+      'openssl',
+      [
+        'req',
+        '-x509',
+        '-newkey',
+        'rsa:2048',
+        '-nodes',
+        '-keyout',
+        'server.key',
+        '-out',
+        'server.crt',
+        '-days',
+        '1',
+        '-subj',
+        '/CN=localhost',
+      ],
+      { cwd: fileURLToPath(new URL('certs', fs.baseUrl)) }
+    )
+
+    const ignitor = new IgnitorFactory()
+      .withCoreConfig()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+        config: {
+          app: {
+            appKey: 'averylongrandomsecretkey',
+            http: defineHttpConfig({ tls: { key: 'certs/server.key', cert: 'certs/server.crt' } }),
+          },
+        },
+      })
+      .preload(async (app) => {
+        const router = await app.container.make('router')
+        router.get('/', () => 'hello world')
+      })
+      .create(fs.baseUrl)
+
+    const testUtils = new TestUtilsFactory().create(ignitor)
+    await testUtils.app.init()
+    await testUtils.app.boot()
+    await testUtils.boot()
+
+    const closeServer = await testUtils.httpServer().start()
+    const { text } = await supertest(`https://localhost:${process.env.PORT}`)
+      .get('/')
+      .disableTLSCerts()
+    assert.equal(text, 'hello world')
+
+    await closeServer()
+  })
+
+  test('start HTTP server on a unix socket', async ({ assert, fs }) => {
+    await fs.mkdir('sockets')
+    const socketPath = fileURLToPath(new URL('sockets/app.sock', fs.baseUrl))
+
+    const ignitor = new IgnitorFactory()
+      .withCoreConfig()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+        config: {
+          app: {
+            appKey: 'averylongrandomsecretkey',
+            http: defineHttpConfig({ listen: [{ path: 'sockets/app.sock' }] }),
+          },
+        },
+      })
+      .preload(async (app) => {
+        const router = await app.container.make('router')
+        router.get('/', () => 'hello world')
+      })
+      .create(fs.baseUrl)
+
+    const testUtils = new TestUtilsFactory().create(ignitor)
+    await testUtils.app.init()
+    await testUtils.app.boot()
+    await testUtils.boot()
+
+    const closeServer = await testUtils.httpServer().start()
+    const text = await new Promise<string>((resolve, reject) => {
+      request({ socketPath, path: '/' }, (res) => {
+        let body = ''
+        res.setEncoding('utf-8')
+        res.on('data', (chunk) => (body += chunk))
+        res.on('end', () => resolve(body))
+      })
+        .on('error', reject)
+        .end()
+    })
+    assert.equal(text, 'hello world')
+
+    await closeServer()
+  })
+
+  test('start HTTP server on an ephemeral port', async ({ assert, cleanup }) => {
+    cleanup(() => {
+      delete process.env.HOST
+      delete process.env.PORT
+    })
+
+    const ignitor = new IgnitorFactory()
+      .withCoreConfig()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .preload(async (app) => {
+        const router = await app.container.make('router')
+        router.get('/', () => 'hello world')
+      })
+      .create(BASE_URL)
+
+    const testUtils = new TestUtilsFactory().create(ignitor)
+    await testUtils.app.init()
+    await testUtils.app.boot()
+    await testUtils.boot()
+
+    const server = await testUtils.httpServer({ port: 0 }).start()
+    assert.notEqual(server.port, 0)
+    assert.notEqual(server.port, 3333)
+    assert.equal(server.url, `http://localhost:${server.port}`)
+
+    /**
+     * The port is shared with the API client using the env variables
+     */
+    assert.equal(process.env.PORT, String(server.port))
+    assert.equal(process.env.HOST, 'localhost')
+
+    const { text } = await supertest(server.url).get('/')
+    assert.equal(text, 'hello world')
+
+    await server.close()
+    assert.isUndefined(process.env.PORT)
+    assert.isUndefined(process.env.HOST)
+  })
+
+  test('start multiple HTTP servers on ephemeral ports', async ({ assert, cleanup }) => {
+    cleanup(() => {
+      delete process.env.HOST
+      delete process.env.PORT
+    })
+
+    const ignitor = new IgnitorFactory()
+      .withCoreConfig()
+      .merge({
+        rcFileContents: {
+          providers: [() => import('../../providers/app_provider.js')],
+        },
+      })
+      .create(BASE_URL)
+
+    const testUtils = new TestUtilsFactory().create(ignitor)
+    await testUtils.app.init()
+    await testUtils.app.boot()
+    await testUtils.boot()
+
+    const firstServer = await testUtils.httpServer({ port: 0 }).start(() => createServer())
+    const secondServer = await testUtils.httpServer({ port: 0 }).start(() => createServer())
+    assert.notEqual(firstServer.port, secondServer.port)
+
+    await secondServer()
+    await firstServer()
+  })
+
   test('create HTTP context', async ({ assert }) => {
     const ignitor = new IgnitorFactory()
       .withCoreConfig()
@@ -0,0 +1,32 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { args, BaseCommand } from '@adonisjs/ace'
+import type { CommandOptions } from '../../types/ace.js'
+import { ShellCompletions } from '../../modules/ace/shell_completions.js'
+
+/**
+ * Prints the completion suggestions for the words typed after
+ * the toolkit binary. Invoked by the shell completion scripts
+ */
+export default class CompleteCommand extends BaseCommand {
+  static commandName = '__complete'
+  static description: string = 'Print the completion suggestions for the given words'
+  static options: CommandOptions = {
+    hidden: true,
+    allowUnknownFlags: true,
+  }
+
+  @args.spread({ description: 'Words typed after the binary', required: false })
+  declare words?: string[]
+
+  async run(): Promise<any> {
+    await new ShellCompletions(this.kernel).printSuggestions(this.words || [])
+  }
+}
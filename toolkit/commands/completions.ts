@@ -0,0 +1,38 @@
+/*
+ * @adonisjs/core
+ *
+ * (c) AdonisJS
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { args, BaseCommand } from '@adonisjs/ace'
+import type { CommandOptions } from '../../types/ace.js'
+import {
+  SUPPORTED_SHELLS,
+  ShellCompletions,
+  type SupportedShell,
+} from '../../modules/ace/shell_completions.js'
+
+/**
+ * Prints the shell completion script for the toolkit commands
+ */
+export default class CompletionsCommand extends BaseCommand {
+  static commandName = 'completions'
+  static description: string = 'Print the shell completion script for the toolkit commands'
+  static options: CommandOptions = {
+    completions: {
+      shell: [...SUPPORTED_SHELLS],
+    },
+  }
+
+  @args.string({ description: `Name of the shell. Accepted values are "${SUPPORTED_SHELLS}"` })
+  declare shell: SupportedShell
+
+  async run(): Promise<any> {
+    if (!new ShellCompletions(this.kernel).printScript(this.shell)) {
+      this.exitCode = 1
+    }
+  }
+}
@@ -10,10 +10,14 @@
  */
 
 import IndexCommand from './commands/index_commands.js'
-import { Kernel, ListLoader, HelpCommand } from '@adonisjs/ace'
+import CompleteCommand from './commands/complete.js'
+import CompletionsCommand from './commands/completions.js'
+import { BaseKernel } from '../modules/ace/base_kernel.js'
+import { Kernel, ListLoader, HelpCommand, type BaseCommand } from '@adonisjs/ace'
 
-const kernel = Kernel.create()
-kernel.addLoader(new ListLoader([IndexCommand]))
+const kernel = new BaseKernel<typeof BaseCommand>(Kernel.defaultCommand, Kernel.commandExecutor)
+kernel.info.set('binary', 'adonis-kit')
+kernel.addLoader(new ListLoader([IndexCommand, CompletionsCommand, CompleteCommand]))
 
 kernel.defineFlag('help', {
   type: 'boolean',
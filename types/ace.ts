@@ -7,9 +7,360 @@
  * file that was distributed with this source code.
  */
 
+import type { CodeTransformer } from '@adonisjs/assembler/code_transformer'
 import type { CommandOptions as BaseCommandOptions } from '@adonisjs/ace/types'
+import type { AppEnvironments } from './app.js'
+
+/**
+ * Known sources for the dynamic shell completion values. They are
+ * resolved by the "__complete" command at the time of completion.
+ *
+ * - testSuites: Names of the test suites from the "adonisrc.ts" file
+ * - routes: Names of the application routes
+ */
+export type CompletionSource = 'testSuites' | 'routes'
+
+/**
+ * Options for the lock acquired by a command to prevent
+ * concurrent runs
+ */
+export type CommandLockOptions = {
+  /**
+   * Name of the lock. Defaults to the command name
+   */
+  name?: string
+
+  /**
+   * Time after which the lock is considered stale, in case the
+   * process holding it did not release it. The value can be a
+   * number in milliseconds or a string expression like "30m".
+   *
+   * Defaults to "1h"
+   */
+  ttl?: string | number
+
+  /**
+   * Wait for the lock to be released, instead of skipping the
+   * command. Set it to a duration to wait for a maximum amount
+   * of time, after which the command is skipped.
+   *
+   * Defaults to false
+   */
+  wait?: boolean | string | number
+}
+
 export type CommandOptions = BaseCommandOptions & {
   startApp?: boolean
+
+  /**
+   * Hide the command from the commands list
+   */
+  hidden?: boolean
+
+  /**
+   * Values to suggest when completing the args and the flags of the
+   * command in the shell. The object key is the name of the arg or
+   * the flag property, and the value is either a static list of
+   * values or a dynamic completion source.
+   */
+  completions?: Record<string, string[] | CompletionSource>
+
+  /**
+   * Acquire a file based lock before running the command, so that
+   * only one instance of the command runs at a time
+   */
+  lock?: boolean | CommandLockOptions
+
+  /**
+   * Mark the command as dangerous. Dangerous commands must be
+   * confirmed (or run with the "--allow-dangerous" flag) in production
+   * and their usage is logged using the app logger.
+   */
+  dangerous?: boolean
+
+  /**
+   * Node environments in which the command is allowed to run. For
+   * example: ['development', 'test']. Defaults to all environments
+   */
+  environments?: string[]
+}
+
+/**
+ * The JSON document emitted by a command running in the
+ * JSON output mode
+ */
+export type CommandJSONOutput = {
+  command: string
+  exitCode: number
+  result: unknown
+  error: { name?: string; code?: string; message: string } | null
+  logs: { message: string; stream: 'stdout' | 'stderr' }[]
+}
+
+/**
+ * The request sent to the ace daemon to run a command
+ */
+export type AceDaemonRequest = {
+  argv: string[]
+
+  /**
+   * Working directory and the environment variables of the client
+   * process. The command is executed using them.
+   */
+  cwd: string
+  env: NodeJS.ProcessEnv
+
+  /**
+   * Find if the output must be colorized
+   */
+  colors: boolean
+}
+
+/**
+ * Messages streamed by the ace daemon while running a command. The
+ * "fallback" message is sent for the commands that cannot run
+ * inside the daemon and must run in the current process.
+ */
+export type AceDaemonMessage =
+  | { type: 'output'; stream: 'stdout' | 'stderr'; message: string }
+  | { type: 'exit'; exitCode: number }
+  | { type: 'fallback' }
+
+/**
+ * Controller referenced by a route registered using codemods. The
+ * controller is imported lazily inside the routes file
+ */
+export type RouteControllerNode = {
+  /**
+   * Name of the variable holding the lazy import
+   *
+   * @example
+   * `HealthChecksController`
+   */
+  name: string
+
+  /**
+   * The controller import path
+   *
+   * @example
+   * `#controllers/health_checks_controller`
+   */
+  path: string
+}
+
+/**
+ * Route definition registered inside the "start/routes.ts"
+ * file using codemods
+ */
+export type RouteNode =
+  | {
+      type: 'route'
+      method: 'get' | 'post' | 'put' | 'patch' | 'delete' | 'any'
+      pattern: string
+      controller: RouteControllerNode
+
+      /**
+       * Controller method to invoke. Defaults to the "handle"
+       * method
+       */
+      action?: string
+
+      /**
+       * Unique name for the route
+       */
+      name?: string
+    }
+  | {
+      type: 'resource'
+      resource: string
+      controller: RouteControllerNode
+
+      /**
+       * Register the resourceful routes without the "create" and
+       * the "edit" routes
+       */
+      apiOnly?: boolean
+    }
+  | {
+      type: 'group'
+
+      /**
+       * Prefix for the routes of the group. The prefix is also
+       * used to find an existing group in the routes file
+       */
+      prefix: string
+      routes: RouteNode[]
+    }
+
+/**
+ * Module imported using its default export
+ */
+export type DefaultImportNode = {
+  /**
+   * Name of the identifier for the default export
+   */
+  name: string
+
+  /**
+   * The import path
+   *
+   * @example
+   * `#events/order_shipped`
+   */
+  path: string
+}
+
+/**
+ * Event listener registered inside the "start/events.ts" file
+ * using codemods
+ */
+export type EventListenerNode = {
+  /**
+   * The event class or the name of the event. For example:
+   * "db:query"
+   */
+  event: string | DefaultImportNode
+
+  /**
+   * The listener class. It is imported lazily
+   */
+  listener: DefaultImportNode
+
+  /**
+   * Listener method to invoke. Defaults to the "handle" method
+   */
+  method?: string
+}
+
+/**
+ * Container binding registered inside the "register" method
+ * of a provider using codemods
+ */
+export type ContainerBindingNode = {
+  method: 'singleton' | 'bind'
+
+  /**
+   * The binding key. Either a string or a class imported
+   * using its default export
+   */
+  binding: string | DefaultImportNode
+
+  /**
+   * Code for the factory function
+   *
+   * @example
+   * `async () => new Cache()`
+   */
+  factory: string
+}
+
+/**
+ * Entries to remove from the "adonisrc.ts" file using codemods
+ */
+export type RcFileEntriesNode = {
+  /**
+   * Import paths of the providers
+   */
+  providers?: string[]
+
+  /**
+   * Import paths of the commands
+   */
+  commands?: string[]
+
+  /**
+   * Import paths of the preload files
+   */
+  preloadFiles?: string[]
+
+  /**
+   * Glob patterns of the meta files
+   */
+  metaFiles?: string[]
+}
+
+/**
+ * The "adonisrc.ts" file transformer received by the "updateRcFile"
+ * codemod. Providers and preload files may also be registered for
+ * the "worker" environment
+ */
+export type RcFileTransformer = Omit<
+  Parameters<Parameters<CodeTransformer['updateRcFile']>[0]>[0],
+  'addProvider' | 'addPreloadFile'
+> & {
+  addProvider(providerPath: string, environments?: AppEnvironments[]): RcFileTransformer
+  addPreloadFile(modulePath: string, environments?: AppEnvironments[]): RcFileTransformer
+}
+
+/**
+ * Import declaration of a Vite or a Japa plugin
+ */
+export type PluginImportNode = {
+  isNamed: boolean
+  module: string
+  identifier: string
+}
+
+/**
+ * Entries to define inside the "package.json" file using
+ * codemods
+ */
+export type PackageJsonNode = {
+  /**
+   * Subpath imports aliases
+   *
+   * @example
+   * `{ '#mails/*': './app/mails/*.js' }`
+   */
+  imports?: Record<string, string>
+
+  /**
+   * npm scripts
+   */
+  scripts?: Record<string, string>
+
+  /**
+   * Versions of the engines required by the app
+   *
+   * @example
+   * `{ node: '>=20.6.0' }`
+   */
+  engines?: Record<string, string>
+}
+
+/**
+ * Package located from the specifier accepted by the "add" and
+ * the "configure" commands
+ */
+export type LocatedPackage = {
+  /**
+   * The packages are installed from the registry by default. The
+   * relative and absolute paths point to local or workspace
+   * packages and the git URLs point to git repositories
+   */
+  source: 'registry' | 'local' | 'workspace' | 'git'
+
+  /**
+   * The specifier the package was located from
+   */
+  specifier: string
+
+  /**
+   * Name of the package. It is not known for git packages
+   * until they are installed
+   */
+  name?: string
+
+  /**
+   * Absolute path to the directory of local and workspace packages
+   */
+  path?: string
+
+  /**
+   * Absolute path to the main entrypoint of local and workspace
+   * packages
+   */
+  entryPoint?: string
 }
 
 export * from '@adonisjs/ace/types'
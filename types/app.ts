@@ -7,4 +7,13 @@
  * file that was distributed with this source code.
  */
 
+import type { AppEnvironments as KnownAppEnvironments } from '@adonisjs/application/types'
+
 export * from '@adonisjs/application/types'
+
+/**
+ * Environments in which the application can run. The "worker"
+ * environment is used by the long-running processes that do
+ * not serve HTTP requests.
+ */
+export type AppEnvironments = KnownAppEnvironments | 'worker'
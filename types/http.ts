@@ -15,3 +15,106 @@ import type { ValidationOptions } from '@vinejs/vine/types'
  */
 export type RequestValidationOptions<MetaData extends undefined | Record<string, any>> =
   ValidationOptions<MetaData> & { data?: any }
+
+/**
+ * Options used by the HTTP server process to gracefully shutdown
+ * the Node.js HTTP server when the app is terminating
+ */
+export type HttpServerShutdownConfig = {
+  /**
+   * Time to wait for the in-flight requests to finish before
+   * force closing the open connections. The value can be a
+   * number in milliseconds or a string expression like "30s".
+   *
+   * Defaults to "10s"
+   */
+  timeout: string | number
+}
+
+/**
+ * Options used to serve the application over TLS. The file
+ * paths are resolved from the application root.
+ */
+export type HttpServerTlsConfig = {
+  /**
+   * Path to the private key file
+   */
+  key: string
+
+  /**
+   * Path to the certificate file
+   */
+  cert: string
+
+  /**
+   * Path to the certificate authority file
+   */
+  ca?: string
+
+  /**
+   * Passphrase to decrypt the private key
+   */
+  passphrase?: string
+}
+
+/**
+ * A TCP address or a unix domain socket path to listen on. The host
+ * and the port of a TCP address default to the "HOST" and the
+ * "PORT" environment variables.
+ */
+export type HttpServerListenAddress =
+  | {
+      host?: string
+      port?: number
+
+      /**
+       * Disable the dual-stack support when listening on an
+       * IPv6 host
+       */
+      ipv6Only?: boolean
+    }
+  | {
+      /**
+       * Path to the unix domain socket. A relative path is resolved
+       * from the application root
+       */
+      path: string
+
+      /**
+       * File permissions for the socket. For example: 0o660
+       */
+      permissions?: number | string
+    }
+
+/**
+ * An address the HTTP server is bound to
+ */
+export type HttpServerBoundAddress = { host: string; port: number } | { path: string }
+
+/**
+ * Config used by the HTTP server process to start and stop the
+ * Node.js HTTP server. The config is defined within the "http"
+ * export of the "config/app.ts" file.
+ */
+export type HttpServerProcessConfig = {
+  shutdown: Partial<HttpServerShutdownConfig>
+
+  /**
+   * Addresses to listen on. Defaults to the host and the port
+   * defined using the "HOST" and the "PORT" environment
+   * variables
+   */
+  listen: HttpServerListenAddress[]
+
+  /**
+   * Serve the application over HTTPS. The certificates are
+   * re-loaded when the process receives the "SIGHUP" signal
+   */
+  tls: HttpServerTlsConfig
+
+  /**
+   * Serve the application over HTTP/2 with fallback to HTTP/1.1.
+   * Requires the "tls" config.
+   */
+  http2: boolean
+}